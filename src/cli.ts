@@ -0,0 +1,168 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import readline from 'readline/promises';
+import { Wallet } from 'ethers';
+
+import { logger } from './utils/logger.js';
+import {
+    readCollectionsConfig,
+    initializeCollections,
+    initializeOfferCollections,
+    resolveCollectionsConfig,
+    formatConfigIssues,
+} from './collections/index.js';
+import { initializeClients } from './networks/index.js';
+import { killSwitch, resume, setPauseFilePath, KillSwitchScope } from './killswitch/index.js';
+
+dotenv.config();
+
+const RPC_ENDPOINTS = process.env.RPC_ENDPOINTS ? process.env.RPC_ENDPOINTS.split(',') : [];
+const COLLECTION_PATH = process.env.COLLECTION_PATH!;
+const OPENSEA_API_KEY = process.env.OPENSEA_API_KEY!;
+const PRIVATE_KEY = process.env.PRIVATE_KEY!;
+const PAUSE_FILE_PATH = process.env.PAUSE_FILE_PATH || 'data/paused.json';
+// Default to dry-run mode for safety unless explicitly disabled
+// Only disable dry-run if explicitly set to 'false' or '0'
+const DRY_RUN = process.env.DRY_RUN !== 'false' && process.env.DRY_RUN !== '0';
+
+const USAGE = `Usage:
+  kill [--chain <chain>] [--collection <slug>] [--hard] [--yes]
+  resume [--chain <chain>] [--collection <slug>]
+  validate [--file <path>]`;
+
+/**
+ * Gets the value of a command line option
+ * @param args The command line arguments
+ * @param name The option name, e.g. --chain
+ * @returns The option value or undefined if not given
+ */
+const getOption = (args: string[], name: string): string | undefined => {
+    const index = args.indexOf(name);
+    if (index === -1) {
+        return undefined;
+    }
+    const value = args[index + 1];
+    if (!value || value.startsWith('--')) {
+        throw new Error(`Missing value for ${name}\n${USAGE}`);
+    }
+    return value;
+};
+
+/**
+ * Asks the user to confirm a message on the terminal
+ * @param message The message to confirm
+ * @returns True if the user answered yes
+ */
+const confirmOnTerminal = async (message: string): Promise<boolean> => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    try {
+        const answer = await rl.question(`${message} [y/N] `);
+        return ['y', 'yes'].includes(answer.trim().toLowerCase());
+    } finally {
+        rl.close();
+    }
+};
+
+/**
+ * Checks a collections configuration file without starting the bot
+ * Chains are checked against RPC_ENDPOINTS when it is set.
+ * @param collectionPath Path to the collections configuration file
+ * @returns True if the configuration is valid
+ */
+const validateConfigFile = (collectionPath: string): boolean => {
+    let parsedConfig: unknown;
+    try {
+        parsedConfig = JSON.parse(fs.readFileSync(collectionPath, 'utf-8'));
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        logger.error(`Could not read collections config ${collectionPath}: ${errorMessage}`);
+        return false;
+    }
+
+    const chains =
+        RPC_ENDPOINTS.length > 0
+            ? RPC_ENDPOINTS.map((rpcEndpoint) => rpcEndpoint.split('::')[0])
+            : undefined;
+    const { listings, offers, issues } = resolveCollectionsConfig(parsedConfig, chains);
+    if (issues.length > 0) {
+        logger.error(
+            `Found ${issues.length} problem(s) in collections config ${collectionPath}:\n${formatConfigIssues(issues)}`
+        );
+        return false;
+    }
+
+    logger.info(
+        `Collections config ${collectionPath} is valid (${listings.length} listings, ${offers.length} offers)`
+    );
+    return true;
+};
+
+const main = async () => {
+    const [command, ...args] = process.argv.slice(2);
+    const scope: KillSwitchScope = {
+        chain: getOption(args, '--chain'),
+        collectionSlug: getOption(args, '--collection'),
+    };
+
+    if (command === 'validate') {
+        if (!validateConfigFile(getOption(args, '--file') || COLLECTION_PATH)) {
+            process.exitCode = 1;
+        }
+        return;
+    }
+
+    setPauseFilePath(PAUSE_FILE_PATH);
+
+    if (command === 'resume') {
+        resume(scope);
+        return;
+    }
+    if (command !== 'kill') {
+        throw new Error(USAGE);
+    }
+
+    logger.info(
+        `Dry-run mode: ${DRY_RUN ? 'ENABLED ⚠️  (No state-changing operations will be executed)' : 'DISABLED (All operations will be executed)'}`
+    );
+
+    const owner = new Wallet(PRIVATE_KEY);
+    const { providers, openSeaClients, signers } = await initializeClients(
+        RPC_ENDPOINTS,
+        PRIVATE_KEY,
+        OPENSEA_API_KEY
+    );
+
+    // Configured slugs are cancelled even if the wallet has no recent events for them
+    const configuredSlugs: Record<string, string[]> = {};
+    const collectionsConfig = readCollectionsConfig(COLLECTION_PATH, providers);
+    for (const c of [
+        ...initializeCollections(collectionsConfig),
+        ...initializeOfferCollections(collectionsConfig),
+    ]) {
+        configuredSlugs[c.chain] = [...(configuredSlugs[c.chain] || []), c.collectionSlug];
+    }
+
+    const mode = args.includes('--hard') ? 'hard' : 'soft';
+    if (mode === 'soft') {
+        logger.info(
+            'Soft mode: offers are canceled offchain, listings onchain with one transaction each ...'
+        );
+    }
+
+    const confirm = args.includes('--yes') ? async () => true : confirmOnTerminal;
+    await killSwitch(
+        scope,
+        mode,
+        openSeaClients,
+        signers,
+        owner.address,
+        configuredSlugs,
+        confirm,
+        DRY_RUN
+    );
+};
+
+main().catch((error) => {
+    logger.error('Fatal error:', error);
+    process.exit(1);
+});
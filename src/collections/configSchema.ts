@@ -0,0 +1,605 @@
+import { parseEther } from 'ethers';
+
+import { MAX_ORDER_DURATION_SECONDS } from '../expiration/expirationPolicy.js';
+import { parsePriceExpression } from './priceBounds.js';
+import { resolveConfigEntries } from './configTemplates.js';
+import { Collection, OfferCollection } from './types.js';
+
+/**
+ * A problem found in the collections configuration, with the JSON path of the offending value
+ */
+export type ConfigIssue = {
+    path: string; // e.g. "$.offers[2].maxPriceEth"
+    message: string;
+};
+
+/**
+ * An object of the configuration as parsed from JSON, narrowed where its fields are read
+ */
+export type ConfigObject = Record<string, unknown>;
+
+/**
+ * An entry of the configuration with its JSON path
+ */
+export type PathedEntry = {
+    path: string; // e.g. "$.listings[0]"
+    entry: ConfigObject;
+};
+
+/**
+ * Flat listing and offer entries resolved from a collections configuration
+ */
+export type ResolvedCollectionsConfig = {
+    listings: ConfigObject[];
+    offers: ConfigObject[];
+    issues: ConfigIssue[];
+};
+
+/**
+ * Checks a whole object once its fields are valid
+ * @returns A problem with the object, if any
+ */
+type ObjectRule = (value: ConfigObject) => string | undefined;
+
+/**
+ * Expected shape of a configuration value
+ * - string: non-empty string
+ * - ethAmount: ETH amount as a number or numeric string
+ * - priceBound: ETH amount or price expression, e.g. "85% of floor"
+ * - tokenId: non-negative integer as a number or numeric string
+ * - address: 0x-prefixed contract address
+ */
+type ValueSchema =
+    | { type: 'string' }
+    | { type: 'boolean' }
+    | { type: 'address' }
+    | { type: 'tokenId' }
+    | { type: 'priceBound' }
+    | { type: 'ethAmount'; positive?: boolean }
+    | { type: 'integer'; min?: number; max?: number }
+    | { type: 'number'; greaterThan?: number; lessThan?: number }
+    | { type: 'array'; items: ValueSchema; minItems?: number }
+    | { type: 'object'; fields: Record<string, FieldSchema>; rules?: ObjectRule[] };
+
+type FieldSchema = ValueSchema & { required?: boolean };
+
+type ObjectSchema = Extract<ValueSchema, { type: 'object' }>;
+
+const MAX_TOKEN_ID_RANGE_SIZE = 1000n;
+
+const ADDRESS_REGEX = /^0x[0-9a-fA-F]{40}$/;
+const TOKEN_ID_REGEX = /^\d+$/;
+
+/**
+ * Checks if a configured price bound is relative to the market
+ * @param value The configured price bound
+ * @returns True if the price bound is an expression like "85% of floor"
+ */
+const isRelative = (value: unknown): boolean =>
+    value !== undefined && !!parsePriceExpression(value as string).reference;
+
+/**
+ * Checks that the hard price limits of an entry leave room for a price
+ * @param c The entry
+ * @returns A problem with the limits, if any
+ */
+const checkHardPriceLimits: ObjectRule = (c) =>
+    c.hardMinPriceETH !== undefined &&
+    c.hardMaxPriceETH !== undefined &&
+    parseEther(String(c.hardMinPriceETH)) > parseEther(String(c.hardMaxPriceETH))
+        ? 'hardMinPriceETH must be less than or equal to hardMaxPriceETH'
+        : undefined;
+
+const expirationSchema: FieldSchema = {
+    type: 'object',
+    fields: {
+        durationSeconds: { type: 'integer', min: 1, max: MAX_ORDER_DURATION_SECONDS },
+        minPriceDurationSeconds: { type: 'integer', min: 1, max: MAX_ORDER_DURATION_SECONDS },
+        inheritCompetitorExpiration: { type: 'boolean' },
+        minDurationSeconds: { type: 'integer', min: 1, max: MAX_ORDER_DURATION_SECONDS },
+        maxDurationSeconds: { type: 'integer', min: 1, max: MAX_ORDER_DURATION_SECONDS },
+    },
+    rules: [
+        (e) =>
+            e.minDurationSeconds !== undefined &&
+            e.maxDurationSeconds !== undefined &&
+            (e.minDurationSeconds as number) > (e.maxDurationSeconds as number)
+                ? 'minDurationSeconds must be less than or equal to maxDurationSeconds'
+                : undefined,
+    ],
+};
+
+const scheduleSchema: FieldSchema = {
+    type: 'object',
+    fields: {
+        intervalSeconds: { type: 'integer', min: 1 },
+        priority: { type: 'integer' },
+        jitterSeconds: { type: 'integer', min: 0 },
+    },
+};
+
+const listingSchema: ObjectSchema = {
+    type: 'object',
+    fields: {
+        chain: { type: 'string', required: true },
+        collectionSlug: { type: 'string', required: true },
+        tokenAddress: { type: 'address' },
+        tokenId: { type: 'tokenId' },
+        tokenIds: { type: 'array', items: { type: 'tokenId' }, minItems: 1 },
+        tokenIdRange: {
+            type: 'object',
+            fields: {
+                start: { type: 'tokenId', required: true },
+                end: { type: 'tokenId', required: true },
+            },
+            rules: [
+                (r) =>
+                    BigInt(String(r.end)) < BigInt(String(r.start))
+                        ? 'end is lower than start'
+                        : undefined,
+                (r) =>
+                    BigInt(String(r.end)) - BigInt(String(r.start)) + 1n > MAX_TOKEN_ID_RANGE_SIZE
+                        ? `spans more than ${MAX_TOKEN_ID_RANGE_SIZE} tokens`
+                        : undefined,
+            ],
+        },
+        autoDiscover: { type: 'boolean' },
+        defaultPriceETH: { type: 'priceBound', required: true },
+        minPriceETH: { type: 'priceBound', required: true },
+        hardMinPriceETH: { type: 'ethAmount', positive: true },
+        hardMaxPriceETH: { type: 'ethAmount', positive: true },
+        quantity: { type: 'integer', min: 1 },
+        priceGapETH: { type: 'ethAmount' },
+        shouldCompareToRest: { type: 'boolean' },
+        shouldTighten: { type: 'boolean' },
+        tightenGapETH: { type: 'ethAmount' },
+        expiration: expirationSchema,
+        schedule: scheduleSchema,
+    },
+    rules: [
+        (c) => {
+            const hasTokenIds =
+                c.tokenId !== undefined || c.tokenIds !== undefined || c.tokenIdRange !== undefined;
+            if (c.autoDiscover && hasTokenIds) {
+                return 'token IDs cannot be set on an auto-discovered entry, they are discovered from the wallet holdings';
+            }
+            if (!c.autoDiscover && !hasTokenIds) {
+                return 'one of tokenId, tokenIds or tokenIdRange is required';
+            }
+            return undefined;
+        },
+        (c) =>
+            !c.autoDiscover && c.tokenAddress === undefined
+                ? 'tokenAddress is required unless autoDiscover is set'
+                : undefined,
+        (c) => {
+            if (isRelative(c.defaultPriceETH) || isRelative(c.minPriceETH)) {
+                return c.hardMinPriceETH === undefined
+                    ? 'hardMinPriceETH is required when prices are relative'
+                    : undefined;
+            }
+            if (parseEther(String(c.defaultPriceETH)) <= 0n) {
+                return 'defaultPriceETH must be positive';
+            }
+            if (parseEther(String(c.minPriceETH)) <= 0n) {
+                return 'minPriceETH must be positive';
+            }
+            return parseEther(String(c.defaultPriceETH)) < parseEther(String(c.minPriceETH))
+                ? 'minPriceETH must be less than or equal to defaultPriceETH'
+                : undefined;
+        },
+        checkHardPriceLimits,
+    ],
+};
+
+const tierSchema: ValueSchema = {
+    type: 'object',
+    fields: {
+        quantity: { type: 'integer', min: 1, required: true },
+        discountPercent: { type: 'number', greaterThan: 0, lessThan: 100, required: true },
+        minPriceETH: { type: 'ethAmount' },
+        maxPriceETH: { type: 'ethAmount', positive: true },
+        priceDecimals: { type: 'integer', min: 1, max: 18 },
+    },
+    rules: [
+        (t) =>
+            t.minPriceETH !== undefined &&
+            t.maxPriceETH !== undefined &&
+            parseEther(String(t.minPriceETH)) > parseEther(String(t.maxPriceETH))
+                ? 'minPriceETH must be less than or equal to maxPriceETH'
+                : undefined,
+    ],
+};
+
+const offerSchema: ObjectSchema = {
+    type: 'object',
+    fields: {
+        chain: { type: 'string', required: true },
+        collectionSlug: { type: 'string', required: true },
+        tokenAddress: { type: 'address', required: true },
+        tokenId: { type: 'tokenId' },
+        trait: {
+            type: 'object',
+            fields: {
+                traitType: { type: 'string', required: true },
+                value: { type: 'string', required: true },
+            },
+        },
+        defaultPriceETH: { type: 'priceBound', required: true },
+        maxPriceETH: { type: 'priceBound', required: true },
+        hardMaxPriceETH: { type: 'ethAmount', positive: true },
+        hardMinPriceETH: { type: 'ethAmount', positive: true },
+        shouldCompareToRest: { type: 'boolean' },
+        shouldLower: { type: 'boolean' },
+        lowerAfterIncrements: { type: 'integer', min: 1 },
+        quantity: { type: 'integer', min: 1 },
+        targetQuantity: { type: 'integer', min: 1 },
+        priceDecimals: { type: 'integer', min: 1, max: 18 },
+        budgetETH: { type: 'ethAmount', positive: true },
+        tiers: { type: 'array', items: tierSchema },
+        expiration: expirationSchema,
+        schedule: scheduleSchema,
+    },
+    rules: [
+        (c) =>
+            c.tokenId !== undefined && c.trait !== undefined
+                ? 'tokenId and trait cannot both be set. Use tokenId for single offers or trait for trait offers'
+                : undefined,
+        (c) =>
+            c.tokenId !== undefined && c.tiers !== undefined
+                ? 'tiers are only supported for collection and trait offers'
+                : undefined,
+        (c) => {
+            if (isRelative(c.defaultPriceETH) || isRelative(c.maxPriceETH)) {
+                return c.hardMaxPriceETH === undefined
+                    ? 'hardMaxPriceETH is required when prices are relative'
+                    : undefined;
+            }
+            if (parseEther(String(c.defaultPriceETH)) <= 0n) {
+                return 'defaultPriceETH must be positive';
+            }
+            if (parseEther(String(c.maxPriceETH)) <= 0n) {
+                return 'maxPriceETH must be positive';
+            }
+            return parseEther(String(c.defaultPriceETH)) > parseEther(String(c.maxPriceETH))
+                ? 'defaultPriceETH must be less than or equal to maxPriceETH'
+                : undefined;
+        },
+        checkHardPriceLimits,
+    ],
+};
+
+const CONFIG_FIELDS = ['listings', 'offers', 'collections'];
+
+/**
+ * Describes the kind of value a schema expects
+ * @param schema The value schema
+ * @returns e.g. "an ETH amount"
+ */
+const describeSchema = (schema: ValueSchema): string => {
+    switch (schema.type) {
+        case 'string':
+            return 'a non-empty string';
+        case 'boolean':
+            return 'true or false';
+        case 'address':
+            return 'a 0x-prefixed contract address';
+        case 'tokenId':
+            return 'a token ID';
+        case 'priceBound':
+            return 'an ETH amount or a price expression like "85% of floor"';
+        case 'ethAmount':
+            return schema.positive ? 'a positive ETH amount' : 'an ETH amount';
+        case 'integer':
+            if (schema.max !== undefined) {
+                return `an integer between ${schema.min} and ${schema.max}`;
+            }
+            if (schema.min === 0) {
+                return 'a non-negative integer';
+            }
+            return schema.min === 1 ? 'a positive integer' : 'an integer';
+        case 'number':
+            return `a number between ${schema.greaterThan} and ${schema.lessThan}, exclusive`;
+        case 'array':
+            return 'an array';
+        case 'object':
+            return 'an object';
+    }
+};
+
+/**
+ * Parses an ETH amount, as a number or numeric string
+ * @param value The configured value
+ * @returns The amount in wei, or undefined if the value is not an ETH amount
+ */
+const parseEthAmount = (value: unknown): bigint | undefined => {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+        return undefined;
+    }
+    try {
+        return parseEther(String(value).trim());
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Checks a scalar value against its schema
+ * @param value The configured value
+ * @param schema The value schema
+ * @returns True if the value is valid
+ */
+const isValidScalar = (value: unknown, schema: ValueSchema): boolean => {
+    switch (schema.type) {
+        case 'string':
+            return typeof value === 'string' && value.trim().length > 0;
+        case 'boolean':
+            return typeof value === 'boolean';
+        case 'address':
+            return typeof value === 'string' && ADDRESS_REGEX.test(value);
+        case 'tokenId':
+            return (
+                (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) ||
+                (typeof value === 'string' && TOKEN_ID_REGEX.test(value))
+            );
+        case 'priceBound':
+            if (typeof value !== 'string' && typeof value !== 'number') {
+                return false;
+            }
+            try {
+                parsePriceExpression(value);
+                return true;
+            } catch {
+                return false;
+            }
+        case 'ethAmount': {
+            const amount = parseEthAmount(value);
+            return amount !== undefined && (schema.positive ? amount > 0n : amount >= 0n);
+        }
+        case 'integer':
+            return (
+                Number.isInteger(value) &&
+                (schema.min === undefined || (value as number) >= schema.min) &&
+                (schema.max === undefined || (value as number) <= schema.max)
+            );
+        case 'number':
+            return (
+                typeof value === 'number' &&
+                Number.isFinite(value) &&
+                (schema.greaterThan === undefined || value > schema.greaterThan) &&
+                (schema.lessThan === undefined || value < schema.lessThan)
+            );
+        default:
+            return false;
+    }
+};
+
+/**
+ * Finds a known field differing from an unknown one only by case, e.g. maxPriceEth
+ * @param field The unknown field
+ * @param knownFields The fields of the schema
+ * @returns The known field, if any
+ */
+export const suggestField = (field: string, knownFields: string[]): string | undefined =>
+    knownFields.find((known) => known.toLowerCase() === field.toLowerCase());
+
+/**
+ * Checks a value against its schema, collecting every problem found
+ * Object rules only run once every field of the object is valid.
+ * @param value The configured value
+ * @param schema The value schema
+ * @param path The JSON path of the value
+ * @param issues Accumulated problems
+ */
+const validateValue = (
+    value: unknown,
+    schema: ValueSchema,
+    path: string,
+    issues: ConfigIssue[]
+) => {
+    if (schema.type === 'array') {
+        if (!Array.isArray(value)) {
+            issues.push({ path, message: `must be ${describeSchema(schema)}` });
+            return;
+        }
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            issues.push({ path, message: `must have at least ${schema.minItems} item(s)` });
+        }
+        value.forEach((item, i) => validateValue(item, schema.items, `${path}[${i}]`, issues));
+        return;
+    }
+
+    if (schema.type === 'object') {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            issues.push({ path, message: `must be ${describeSchema(schema)}` });
+            return;
+        }
+        const issueCount = issues.length;
+        const object = value as ConfigObject;
+        const knownFields = Object.keys(schema.fields);
+        for (const field of Object.keys(object)) {
+            if (!schema.fields[field]) {
+                const suggestion = suggestField(field, knownFields);
+                issues.push({
+                    path: `${path}.${field}`,
+                    message: `unknown field${suggestion ? `, did you mean ${suggestion}?` : ''}`,
+                });
+            }
+        }
+        for (const [field, fieldSchema] of Object.entries(schema.fields)) {
+            if (object[field] === undefined || object[field] === null) {
+                if (fieldSchema.required) {
+                    issues.push({ path: `${path}.${field}`, message: 'is required' });
+                }
+                continue;
+            }
+            validateValue(object[field], fieldSchema, `${path}.${field}`, issues);
+        }
+        if (issues.length > issueCount) {
+            return;
+        }
+        for (const rule of schema.rules || []) {
+            const message = rule(object);
+            if (message) {
+                issues.push({ path, message });
+            }
+        }
+        return;
+    }
+
+    if (!isValidScalar(value, schema)) {
+        issues.push({
+            path,
+            message: `must be ${describeSchema(schema)}, got ${JSON.stringify(value)}`,
+        });
+    }
+};
+
+/**
+ * Finds entries that would compete with each other: listings of the same token and offers for
+ * the same collection, trait or token
+ * @param listings The listing entries
+ * @param offers The offer entries
+ * @returns The problems found
+ */
+const findDuplicateEntries = (listings: PathedEntry[], offers: PathedEntry[]): ConfigIssue[] => {
+    const issues: ConfigIssue[] = [];
+
+    const listedTokens = new Map<string, string>();
+    for (const { path, entry } of listings) {
+        // Valid on its own, so shaped like a listing entry
+        const c = entry as Collection;
+        const tokenIds: string[] = [];
+        if (c.autoDiscover) {
+            tokenIds.push('auto');
+        }
+        if (c.tokenId !== undefined) {
+            tokenIds.push(String(c.tokenId));
+        }
+        tokenIds.push(...(c.tokenIds || []).map(String));
+        if (c.tokenIdRange) {
+            const end = BigInt(c.tokenIdRange.end);
+            for (let tokenId = BigInt(c.tokenIdRange.start); tokenId <= end; tokenId++) {
+                tokenIds.push(tokenId.toString());
+            }
+        }
+        for (const tokenId of new Set(tokenIds)) {
+            const key = `${c.chain}:${c.collectionSlug}:${tokenId}`;
+            const previous = listedTokens.get(key);
+            if (previous) {
+                issues.push({
+                    path,
+                    message:
+                        tokenId === 'auto'
+                            ? `${c.collectionSlug} is already auto-discovered by ${previous}`
+                            : `tokenId ${tokenId} of ${c.collectionSlug} is already listed by ${previous}`,
+                });
+                continue;
+            }
+            listedTokens.set(key, path);
+        }
+    }
+
+    const offerTargets = new Map<string, string>();
+    for (const { path, entry } of offers) {
+        const c = entry as OfferCollection;
+        const target =
+            c.tokenId !== undefined
+                ? `tokenId ${c.tokenId}`
+                : c.trait
+                  ? `trait ${c.trait.traitType}: ${c.trait.value}`
+                  : 'the whole collection';
+        const key = `${c.chain}:${c.collectionSlug}:${target}`;
+        const previous = offerTargets.get(key);
+        if (previous) {
+            issues.push({
+                path,
+                message: `${c.collectionSlug} (${target}) already has an offer entry at ${previous}`,
+            });
+            continue;
+        }
+        offerTargets.set(key, path);
+    }
+
+    return issues;
+};
+
+/**
+ * Checks if a JSON path points to a value or to something nested in it
+ * @param path The JSON path to check, e.g. "$.offers[2].trait.value"
+ * @param parentPath The JSON path of the value, e.g. "$.offers[2]"
+ * @returns True if the path is the value or nested in it
+ */
+const isWithinPath = (path: string, parentPath: string): boolean =>
+    path === parentPath || path.startsWith(`${parentPath}.`) || path.startsWith(`${parentPath}[`);
+
+/**
+ * Resolves a collections configuration into flat listing and offer entries, validates each of
+ * them against its schema, then checks entries against each other. Every problem is reported,
+ * not just the first one, at the JSON path of the entry or expanded value it comes from.
+ * @param config The parsed collections configuration
+ * @param chains Chains with an RPC provider, entries of other chains are reported if set
+ * @returns The resolved entries and the problems found, empty if the configuration is valid
+ */
+export const resolveCollectionsConfig = (
+    config: unknown,
+    chains?: string[]
+): ResolvedCollectionsConfig => {
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+        return { listings: [], offers: [], issues: [{ path: '$', message: 'must be an object' }] };
+    }
+
+    const issues: ConfigIssue[] = [];
+    for (const field of Object.keys(config)) {
+        if (!CONFIG_FIELDS.includes(field)) {
+            const suggestion = suggestField(field, CONFIG_FIELDS);
+            issues.push({
+                path: `$.${field}`,
+                message: `unknown field${suggestion ? `, did you mean ${suggestion}?` : ''}`,
+            });
+        }
+    }
+
+    const entries = resolveConfigEntries(
+        config as ConfigObject,
+        { listing: Object.keys(listingSchema.fields), offer: Object.keys(offerSchema.fields) },
+        issues
+    );
+    entries.listings.forEach(({ path, entry }) =>
+        validateValue(entry, listingSchema, path, issues)
+    );
+    entries.offers.forEach(({ path, entry }) => validateValue(entry, offerSchema, path, issues));
+
+    // Entries are only checked against each other once they are valid on their own
+    const isValid = ({ path }: PathedEntry) =>
+        !issues.some((issue) => isWithinPath(issue.path, path));
+    const listings = entries.listings.filter(isValid);
+    const offers = entries.offers.filter(isValid);
+
+    if (chains) {
+        for (const { path, entry } of [...listings, ...offers]) {
+            if (!chains.includes(entry.chain as string)) {
+                issues.push({
+                    path: `${path}.chain`,
+                    message: `no RPC endpoint configured for chain ${entry.chain}`,
+                });
+            }
+        }
+    }
+    issues.push(...findDuplicateEntries(listings, offers));
+
+    // Entries of a block share nested values like tiers, which initialization mutates
+    return {
+        listings: entries.listings.map(({ entry }) => structuredClone(entry)),
+        offers: entries.offers.map(({ entry }) => structuredClone(entry)),
+        issues,
+    };
+};
+
+/**
+ * Formats configuration problems for an error message
+ * @param issues The problems found
+ * @returns One problem per line, e.g. "$.offers[2].maxPriceEth: unknown field"
+ */
+export const formatConfigIssues = (issues: ConfigIssue[]): string =>
+    issues.map((issue) => `  ${issue.path}: ${issue.message}`).join('\n');
@@ -0,0 +1,231 @@
+import { ConfigIssue, ConfigObject, PathedEntry, suggestField } from './configSchema.js';
+
+/**
+ * Fields accepted by each kind of entry, telling which shared fields of a collection block a
+ * child inherits
+ */
+export type EntryFields = {
+    listing: string[];
+    offer: string[];
+};
+
+type EntryKind = keyof EntryFields;
+
+/**
+ * Value each kind of expansion sets on the entries it produces
+ */
+const EXPANSION_FIELDS = {
+    traitValues: 'value',
+    tokenIds: 'tokenId',
+} as const;
+
+type ExpansionMode = keyof typeof EXPANSION_FIELDS;
+
+/**
+ * Checks if a configured value is a plain object
+ * @param value The configured value
+ * @returns True if the value is an object and not an array
+ */
+const isObject = (value: unknown): value is ConfigObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Overrides inherited fields
+ * Nested objects like trait and expiration are merged one level deep, so a child can set
+ * trait.value under the trait.traitType of its block.
+ * @param inherited The inherited fields
+ * @param overrides The fields set by the child
+ * @returns The merged fields
+ */
+const mergeFields = (inherited: ConfigObject, overrides: ConfigObject): ConfigObject => {
+    const merged = { ...inherited };
+    for (const [field, value] of Object.entries(overrides)) {
+        merged[field] =
+            isObject(value) && isObject(merged[field]) ? { ...merged[field], ...value } : value;
+    }
+    return merged;
+};
+
+/**
+ * Picks the fields of a collection block a kind of entry accepts
+ * @param shared The shared fields of the block
+ * @param knownFields The fields accepted by the kind of entry
+ * @returns The fields inherited by the children of that kind
+ */
+const pickFields = (shared: ConfigObject, knownFields: string[]): ConfigObject =>
+    Object.fromEntries(Object.entries(shared).filter(([field]) => knownFields.includes(field)));
+
+/**
+ * Expands a template entry into one entry per trait value or token ID
+ * Each value is either the bare trait value or token ID, or an object setting it along with
+ * fields overriding the template, e.g. { "value": "Alien", "maxPriceETH": "2" }.
+ * @param kind Kind of the entry
+ * @param template The entry, with the fields it inherits
+ * @param path The JSON path of the entry
+ * @param issues Accumulated problems
+ * @returns The expanded entries, or the entry itself if it is not a template
+ */
+const expandTemplate = (
+    kind: EntryKind,
+    template: ConfigObject,
+    path: string,
+    issues: ConfigIssue[]
+): PathedEntry[] => {
+    const { expand, ...fields } = template;
+    if (expand === undefined) {
+        return [{ path, entry: template }];
+    }
+
+    const expandPath = `${path}.expand`;
+    const modes = isObject(expand) ? Object.keys(expand) : [];
+    if (modes.length !== 1 || !(modes[0] in EXPANSION_FIELDS)) {
+        issues.push({
+            path: expandPath,
+            message: 'must be an object with exactly one of traitValues or tokenIds',
+        });
+        return [];
+    }
+    const mode = modes[0] as ExpansionMode;
+    const valuesPath = `${expandPath}.${mode}`;
+    const values = (expand as ConfigObject)[mode];
+    if (!Array.isArray(values) || values.length === 0) {
+        issues.push({ path: valuesPath, message: 'must be a non-empty array' });
+        return [];
+    }
+
+    if (mode === 'traitValues') {
+        if (kind === 'listing') {
+            issues.push({ path: valuesPath, message: 'only offers can expand over trait values' });
+            return [];
+        }
+        if (!isObject(fields.trait) || fields.trait.traitType === undefined) {
+            issues.push({
+                path: `${path}.trait.traitType`,
+                message: 'is required to expand over trait values',
+            });
+            return [];
+        }
+        if (fields.trait.value !== undefined) {
+            issues.push({ path: `${path}.trait.value`, message: `is set by ${valuesPath}` });
+            return [];
+        }
+    } else {
+        const conflicting = ['tokenId', 'tokenIds', 'tokenIdRange', 'autoDiscover'].find(
+            (field) => fields[field] !== undefined
+        );
+        if (conflicting) {
+            issues.push({
+                path: `${path}.${conflicting}`,
+                message: `cannot be combined with ${valuesPath}`,
+            });
+            return [];
+        }
+    }
+
+    const valueField = EXPANSION_FIELDS[mode];
+    return values.flatMap((item, i): PathedEntry[] => {
+        const itemPath = `${valuesPath}[${i}]`;
+        let value: unknown = item;
+        let overrides: ConfigObject = {};
+        if (isObject(item)) {
+            ({ [valueField]: value, ...overrides } = item);
+            if (value === undefined) {
+                issues.push({ path: `${itemPath}.${valueField}`, message: 'is required' });
+                return [];
+            }
+        }
+        const entry = mergeFields(fields, overrides);
+        return [
+            {
+                path: itemPath,
+                entry:
+                    mode === 'traitValues'
+                        ? mergeFields(entry, { trait: { value } })
+                        : { ...entry, tokenId: value },
+            },
+        ];
+    });
+};
+
+/**
+ * Resolves the entries of a collections configuration into flat listing and offer entries
+ * Besides the top-level listings and offers, entries can be grouped in collection blocks whose
+ * shared fields are inherited by every child accepting them, and any entry can be a template
+ * expanded over trait values or token IDs.
+ * @param config The parsed collections configuration
+ * @param fields Fields accepted by each kind of entry
+ * @param issues Accumulated problems with blocks and templates
+ * @returns The resolved entries, each with the JSON path it comes from
+ */
+export const resolveConfigEntries = (
+    config: ConfigObject,
+    fields: EntryFields,
+    issues: ConfigIssue[]
+): { listings: PathedEntry[]; offers: PathedEntry[] } => {
+    const resolved: Record<EntryKind, PathedEntry[]> = { listing: [], offer: [] };
+
+    const addEntries = (
+        kind: EntryKind,
+        entries: unknown,
+        path: string,
+        inherited: ConfigObject
+    ) => {
+        if (entries === undefined) {
+            return;
+        }
+        if (!Array.isArray(entries)) {
+            issues.push({ path, message: 'must be an array' });
+            return;
+        }
+        entries.forEach((entry, i) => {
+            const entryPath = `${path}[${i}]`;
+            if (!isObject(entry)) {
+                issues.push({ path: entryPath, message: 'must be an object' });
+                return;
+            }
+            resolved[kind].push(
+                ...expandTemplate(kind, mergeFields(inherited, entry), entryPath, issues)
+            );
+        });
+    };
+
+    addEntries('listing', config.listings, '$.listings', {});
+    addEntries('offer', config.offers, '$.offers', {});
+
+    if (config.collections !== undefined && !Array.isArray(config.collections)) {
+        issues.push({ path: '$.collections', message: 'must be an array' });
+        return { listings: resolved.listing, offers: resolved.offer };
+    }
+    (config.collections || []).forEach((block: unknown, b: number) => {
+        const blockPath = `$.collections[${b}]`;
+        if (!isObject(block)) {
+            issues.push({ path: blockPath, message: 'must be an object' });
+            return;
+        }
+        const { listings, offers, ...shared } = block;
+        if (listings === undefined && offers === undefined) {
+            issues.push({ path: blockPath, message: 'must have listings or offers' });
+        }
+
+        const knownFields = [...new Set([...fields.listing, ...fields.offer])];
+        for (const field of Object.keys(shared)) {
+            if (!knownFields.includes(field)) {
+                const suggestion = suggestField(field, knownFields);
+                issues.push({
+                    path: `${blockPath}.${field}`,
+                    message: `unknown field${suggestion ? `, did you mean ${suggestion}?` : ''}`,
+                });
+            }
+        }
+
+        addEntries(
+            'listing',
+            listings,
+            `${blockPath}.listings`,
+            pickFields(shared, fields.listing)
+        );
+        addEntries('offer', offers, `${blockPath}.offers`, pickFields(shared, fields.offer));
+    });
+
+    return { listings: resolved.listing, offers: resolved.offer };
+};
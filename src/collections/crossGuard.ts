@@ -0,0 +1,155 @@
+import { formatEther } from 'ethers';
+import { OpenSeaSDK } from 'opensea-js';
+
+import { logger } from '../utils/logger.js';
+import { getAllListings } from '../listings/getAllListings.js';
+import { getListingPricePerUnit } from '../listings/utils.js';
+import { getOffersForCollection } from '../offers/getOffersForCollection.js';
+import { getOfferPricePerItem } from '../offers/utils.js';
+import { Collection, OfferCollection, inferOfferType } from './types.js';
+
+// Entries checked against each other, set once at startup
+let listingEntries: Collection[] = [];
+let offerEntries: OfferCollection[] = [];
+
+// Min gap between our offers and our listings of the same collection, in wei
+let margin = 0n;
+
+/**
+ * Sets the listing and offer entries whose orders must never cross each other
+ * @param collections Array of listing collection configurations
+ * @param offerCollections Array of offer collection configurations
+ * @param marginWei Min gap between our offers and our listings of the same collection
+ */
+export const initializeCrossGuard = (
+    collections: Collection[],
+    offerCollections: OfferCollection[],
+    marginWei: bigint
+) => {
+    listingEntries = collections;
+    offerEntries = offerCollections;
+    margin = marginWei;
+};
+
+/**
+ * Checks if a listing entry and an offer entry trade the same collection
+ * @param listing The listing collection configuration
+ * @param offer The offer collection configuration
+ * @returns True if both entries share the chain and the collection slug or contract
+ */
+const sharesCollection = (listing: Collection, offer: OfferCollection): boolean =>
+    listing.chain === offer.chain &&
+    (listing.collectionSlug === offer.collectionSlug ||
+        (!!listing.tokenAddress &&
+            listing.tokenAddress.toLowerCase() === offer.tokenAddress.toLowerCase()));
+
+/**
+ * Describes a listing entry for logging
+ * @param c The listing collection configuration
+ * @returns e.g. "listing entry cryptopunks (tokenIds=1,2)"
+ */
+const describeListingEntry = (c: Collection): string =>
+    `listing entry ${c.collectionSlug} (tokenIds=${c.tokenIds.join(',')})`;
+
+/**
+ * Describes an offer entry for logging
+ * @param c The offer collection configuration
+ * @returns e.g. "trait offer entry cryptopunks (Type: Alien)"
+ */
+const describeOfferEntry = (c: OfferCollection): string => {
+    const offerType = inferOfferType(c);
+    if (offerType === 'single') {
+        return `single token offer entry ${c.collectionSlug} (tokenId=${c.tokenId})`;
+    }
+    if (offerType === 'trait' && c.trait) {
+        return `trait offer entry ${c.collectionSlug} (${c.trait.traitType}: ${c.trait.value})`;
+    }
+    return `collection offer entry ${c.collectionSlug}`;
+};
+
+/**
+ * Caps the price of a new offer below our lowest listing it could buy, minus the margin
+ * Trait offers are checked against all our listings of the collection since traits are not known.
+ * @param c The offer collection configuration
+ * @param price The price per item of the new offer
+ * @param seaport The OpenSea SDK instance
+ * @param owner The wallet owner address
+ * @returns The price, lowered if needed, or undefined if the offer must be skipped
+ */
+export const guardOfferPrice = async (
+    c: OfferCollection,
+    price: bigint,
+    seaport: OpenSeaSDK,
+    owner: string
+): Promise<bigint | undefined> => {
+    const counterparts = listingEntries.filter((l) => sharesCollection(l, c));
+    if (counterparts.length === 0) {
+        return price;
+    }
+
+    let lowest: { price: bigint; entry: Collection } | undefined;
+    for (const slug of new Set(counterparts.map((l) => l.collectionSlug))) {
+        for (const listing of await getAllListings(seaport, slug, undefined, owner)) {
+            const tokenId = listing.protocol_data.parameters.offer[0]?.identifierOrCriteria;
+            if (c.tokenId !== undefined && c.tokenId != tokenId) {
+                continue;
+            }
+            const entry =
+                counterparts.find((l) => l.tokenIds.includes(tokenId)) ||
+                counterparts.find((l) => l.collectionSlug === slug)!;
+            const listedPrice = getListingPricePerUnit(listing);
+            if (!lowest || listedPrice < lowest.price) {
+                lowest = { price: listedPrice, entry };
+            }
+        }
+    }
+
+    if (!lowest || price < lowest.price - margin) {
+        return price;
+    }
+    const ceiling = lowest.price - margin - 1n;
+    logger.warn(
+        `${describeOfferEntry(c)} would bid ${formatEther(price)} ETH, crossing our listing at ${formatEther(lowest.price)} ETH from ${describeListingEntry(lowest.entry)}. ${ceiling > 0n ? `Lowering it to ${formatEther(ceiling)} ETH ...` : 'Skipping...'}`
+    );
+    return ceiling > 0n ? ceiling : undefined;
+};
+
+/**
+ * Checks that a new listing stays above our highest offer that could buy it, plus the margin
+ * Trait offers count against every token of the collection since traits are not known.
+ * @param c The listing collection configuration
+ * @param tokenId The token ID to list
+ * @param price The price per unit of the new listing
+ * @param seaport The OpenSea SDK instance
+ * @param owner The wallet owner address
+ * @returns True if the listing can be created
+ */
+export const guardListingPrice = async (
+    c: Collection,
+    tokenId: string,
+    price: bigint,
+    seaport: OpenSeaSDK,
+    owner: string
+): Promise<boolean> => {
+    const counterparts = offerEntries.filter(
+        (o) => sharesCollection(c, o) && (o.tokenId === undefined || o.tokenId == tokenId)
+    );
+
+    let highest: { price: bigint; entry: OfferCollection } | undefined;
+    for (const entry of counterparts) {
+        for (const offer of await getOffersForCollection(entry, seaport, owner)) {
+            const offeredPrice = getOfferPricePerItem(offer);
+            if (!highest || offeredPrice > highest.price) {
+                highest = { price: offeredPrice, entry };
+            }
+        }
+    }
+
+    if (!highest || price > highest.price + margin) {
+        return true;
+    }
+    logger.warn(
+        `${describeListingEntry(c)} would list tokenId=${tokenId} at ${formatEther(price)} ETH, crossing our offer at ${formatEther(highest.price)} ETH from ${describeOfferEntry(highest.entry)}. Skipping...`
+    );
+    return false;
+};
@@ -0,0 +1,124 @@
+import { Chain, NFT, OpenSeaSDK } from 'opensea-js';
+
+import { logger } from '../utils/logger.js';
+import { withRateLimitRetry } from '../utils/ratelimit.js';
+import { Collection } from './types.js';
+
+/**
+ * Gets all NFTs held by an account on the chain of the OpenSea SDK instance
+ * @param seaport The OpenSea SDK instance
+ * @param owner The wallet owner address
+ * @param next Optional pagination token
+ * @param accumulatedNFTs Accumulated NFTs from previous pages
+ * @returns Array of all NFTs held by the account
+ */
+const getAccountNFTs = async (
+    seaport: OpenSeaSDK,
+    owner: string,
+    next?: string,
+    accumulatedNFTs: NFT[] = []
+): Promise<NFT[]> => {
+    const nftsResp = await withRateLimitRetry(() =>
+        seaport.api.getNFTsByAccount(owner, 200, next, seaport.chain as Chain)
+    );
+
+    accumulatedNFTs.push(...nftsResp.nfts);
+
+    // If there are more pages, recursively fetch them
+    if (nftsResp.next) {
+        return await getAccountNFTs(seaport, owner, nftsResp.next, accumulatedNFTs);
+    }
+
+    return accumulatedNFTs;
+};
+
+/**
+ * Updates the token IDs of an auto-discovered listing entry from the NFTs held by the wallet
+ * @param c The listing collection configuration
+ * @param nfts The NFTs held by the wallet on the entry's chain
+ */
+const updateDiscoveredTokens = (c: Collection, nfts: NFT[]) => {
+    const matching = nfts.filter((nft) =>
+        c.tokenAddress
+            ? nft.contract.toLowerCase() === c.tokenAddress.toLowerCase()
+            : nft.collection === c.collectionSlug
+    );
+    if (!c.tokenAddress && matching.length > 0) {
+        c.tokenAddress = matching[0].contract;
+    }
+
+    // A slug can span several contracts, only list tokens of the entry's contract
+    const tokenIds = [
+        ...new Set(
+            matching
+                .filter(
+                    (nft) =>
+                        !nft.is_disabled &&
+                        nft.contract.toLowerCase() === c.tokenAddress.toLowerCase()
+                )
+                .map((nft) => nft.identifier)
+        ),
+    ];
+    const added = tokenIds.filter((tokenId) => !c.tokenIds.includes(tokenId));
+    const removed = c.tokenIds.filter((tokenId) => !tokenIds.includes(tokenId));
+
+    if (added.length > 0) {
+        logger.info(
+            `Discovered ${added.length} new ${c.collectionSlug} token(s) to list: ${added.join(',')}`
+        );
+    }
+    if (removed.length > 0) {
+        logger.info(
+            `${removed.length} ${c.collectionSlug} token(s) left the wallet: ${removed.join(',')}`
+        );
+        for (const tokenId of removed) {
+            delete c.remainingQuantities[tokenId];
+        }
+    }
+
+    c.tokenIds = tokenIds;
+    c.disabled = tokenIds.length === 0;
+};
+
+/**
+ * Discovers the tokens held by the wallet for all auto-discovered listing entries
+ * Fetches the wallet holdings once per chain to minimize API calls
+ * @param collections Array of listing collection configurations
+ * @param openSeaClients Record of OpenSea SDK instances by chain
+ * @param owner The wallet owner address
+ */
+export const discoverHoldings = async (
+    collections: Collection[],
+    openSeaClients: Record<string, OpenSeaSDK>,
+    owner: string
+): Promise<void> => {
+    // Group auto-discovered collections by chain
+    const collectionsByChain = new Map<string, Collection[]>();
+    for (const collection of collections) {
+        if (!collection.autoDiscover) {
+            continue;
+        }
+        if (!collectionsByChain.has(collection.chain)) {
+            collectionsByChain.set(collection.chain, []);
+        }
+        collectionsByChain.get(collection.chain)!.push(collection);
+    }
+
+    for (const [chain, chainCollections] of collectionsByChain.entries()) {
+        const seaport = openSeaClients[chain];
+        if (!seaport) {
+            logger.warn(`No OpenSea client found for chain ${chain}, skipping`);
+            continue;
+        }
+
+        try {
+            const nfts = await getAccountNFTs(seaport, owner);
+            logger.debug(`Found ${nfts.length} NFT(s) held by ${owner} on chain ${chain}`);
+            for (const collection of chainCollections) {
+                updateDiscoveredTokens(collection, nfts);
+            }
+        } catch (err) {
+            logger.error(`Error discovering holdings on chain ${chain}:`, err);
+        }
+    }
+};
@@ -0,0 +1,69 @@
+import { AssetEvent, AssetEventType, OpenSeaSDK } from 'opensea-js';
+
+import { withRateLimitRetry } from '../utils/ratelimit.js';
+
+/**
+ * Gets the collection slug of an order event
+ * @param event The order event
+ * @returns The collection slug, or undefined if the event has none
+ */
+const getEventCollectionSlug = (event: AssetEvent): string | undefined => {
+    if ('asset' in event && event.asset) {
+        return event.asset.collection;
+    }
+    if ('criteria' in event && event.criteria) {
+        const collection = event.criteria.collection as { slug?: string } | undefined;
+        return collection?.slug;
+    }
+    return undefined;
+};
+
+/**
+ * Gets the slugs of all collections an account has created orders on since a given time,
+ * on the chain of the OpenSea SDK instance
+ * @param seaport The OpenSea SDK instance
+ * @param owner The wallet owner address
+ * @param eventType The order event type, e.g. listing or collection_offer
+ * @param after Only consider orders created after this timestamp
+ * @param next Optional pagination token
+ * @param slugs Accumulated slugs from previous pages
+ * @returns Set of collection slugs
+ */
+export const getAccountCollectionSlugs = async (
+    seaport: OpenSeaSDK,
+    owner: string,
+    eventType: AssetEventType,
+    after: number,
+    next?: string,
+    slugs: Set<string> = new Set()
+): Promise<Set<string>> => {
+    const eventsResp = await withRateLimitRetry(() =>
+        seaport.api.getEventsByAccount(owner, {
+            event_type: eventType,
+            chain: seaport.chain,
+            after,
+            next,
+        })
+    );
+
+    for (const event of eventsResp.asset_events) {
+        const slug = getEventCollectionSlug(event);
+        if (slug) {
+            slugs.add(slug);
+        }
+    }
+
+    // If there are more pages, recursively fetch them
+    if (eventsResp.next) {
+        return await getAccountCollectionSlugs(
+            seaport,
+            owner,
+            eventType,
+            after,
+            eventsResp.next,
+            slugs
+        );
+    }
+
+    return slugs;
+};
@@ -1,3 +1,30 @@
-export { Collection, OfferCollection } from './types.js';
-export { initializeCollections, initializeOfferCollections } from './initializeCollections.js';
+export {
+    ActiveCollections,
+    Collection,
+    OfferCollection,
+    PriceExpression,
+    PriceReference,
+    PriceReferences,
+} from './types.js';
+export {
+    type CollectionsConfig,
+    readCollectionsConfig,
+    initializeCollections,
+    initializeOfferCollections,
+} from './initializeCollections.js';
 export { monitorCollection } from './monitorCollection.js';
+export { discoverHoldings } from './discoverHoldings.js';
+export { getAccountCollectionSlugs } from './getAccountCollectionSlugs.js';
+export {
+    parsePriceExpression,
+    resolveListingPriceBounds,
+    resolveOfferPriceBounds,
+} from './priceBounds.js';
+export { initializeCrossGuard } from './crossGuard.js';
+export { watchCollections } from './watchCollections.js';
+export {
+    type ConfigIssue,
+    type ResolvedCollectionsConfig,
+    resolveCollectionsConfig,
+    formatConfigIssues,
+} from './configSchema.js';
@@ -4,64 +4,133 @@ import { parseEther } from 'ethers';
 import { logger } from '../utils/logger.js';
 import { Collection, OfferCollection, inferOfferType } from './types.js';
 import { DEFAULT_PRICE_DECIMALS } from '../offers/utils.js';
+import { parsePriceExpression } from './priceBounds.js';
+import { getExpirationPolicy, validateExpirationPolicy } from '../expiration/index.js';
+import {
+    ResolvedCollectionsConfig,
+    formatConfigIssues,
+    resolveCollectionsConfig,
+} from './configSchema.js';
 
-type CollectionsConfig = {
-    listings?: Collection[];
-    offers?: OfferCollection[];
-};
+/**
+ * Entries of the configuration file as written, with collection blocks and templates resolved
+ */
+export type CollectionsConfig = Omit<ResolvedCollectionsConfig, 'issues'>;
 
 /**
- * Initializes listing collections from the configuration file
+ * Reads the configuration file, resolves its collection blocks and templates into flat entries
+ * and validates them against the schema
  * @param collectionPath Path to the collections configuration file
  * @param providers Record of RPC providers by chain
- * @returns Array of initialized listing collections
+ * @returns The resolved configuration
  */
-export const initializeCollections = (
+export const readCollectionsConfig = (
     collectionPath: string,
     providers: Record<string, any>
-): Collection[] => {
+): CollectionsConfig => {
     const fileContent = fs.readFileSync(collectionPath, 'utf-8');
-    const parsedConfig: CollectionsConfig = JSON.parse(fileContent);
+    const parsedConfig = JSON.parse(fileContent);
+
+    const { listings, offers, issues } = resolveCollectionsConfig(
+        parsedConfig,
+        Object.keys(providers)
+    );
+    if (issues.length > 0) {
+        throw new Error(
+            `Invalid collections config ${collectionPath}:\n${formatConfigIssues(issues)}`
+        );
+    }
+    return { listings, offers };
+};
+
+/**
+ * Resolves the token IDs of a listing entry from its tokenId, tokenIds and tokenIdRange fields
+ * @param c The listing collection configuration
+ * @returns Deduplicated array of token IDs to list
+ */
+const resolveTokenIds = (c: Collection): string[] => {
+    const tokenIds: string[] = [];
+
+    if (c.tokenId !== undefined && c.tokenId !== null && c.tokenId !== '') {
+        tokenIds.push(String(c.tokenId));
+    }
+
+    if (c.tokenIds) {
+        tokenIds.push(...c.tokenIds.map((tokenId) => String(tokenId)));
+    }
+
+    if (c.tokenIdRange) {
+        const end = BigInt(c.tokenIdRange.end);
+        for (let tokenId = BigInt(c.tokenIdRange.start); tokenId <= end; tokenId++) {
+            tokenIds.push(tokenId.toString());
+        }
+    }
+
+    return [...new Set(tokenIds)];
+};
 
-    const listings = parsedConfig.listings || [];
+/**
+ * Initializes listing collections from the configuration
+ * @param config The configuration read from the file, left as written
+ * @returns Array of initialized listing collections
+ */
+export const initializeCollections = (config: CollectionsConfig): Collection[] => {
+    const listings = structuredClone(config.listings) as Collection[];
     const collections: Collection[] = [];
 
     for (let c of listings) {
-        // Validate against providers
-        if (!providers[c.chain]) {
-            throw new Error(
-                `No RPC provider configured for chain ${c.chain} (needed by ${c.tokenAddress}:${c.tokenId}). Did you run initializeClients()?`
-            );
+        c.autoDiscover = c.autoDiscover || false;
+        if (c.autoDiscover) {
+            c.tokenAddress = c.tokenAddress || '';
         }
+        c.tokenIds = resolveTokenIds(c);
+        const tokens = c.autoDiscover
+            ? c.collectionSlug
+            : `${c.tokenAddress}:${c.tokenIds.join(',')}`;
+
+        // Prices are either fixed or relative to the market
+        const defaultPriceExpression = parsePriceExpression(c.defaultPriceETH);
+        const minPriceExpression = parsePriceExpression(c.minPriceETH);
+        if (defaultPriceExpression.reference || minPriceExpression.reference) {
+            c.hardMinPrice = parseEther(String(c.hardMinPriceETH));
+            if (c.hardMaxPriceETH !== undefined) {
+                c.hardMaxPrice = parseEther(String(c.hardMaxPriceETH));
+            }
+            c.priceExpressions = { default: defaultPriceExpression, min: minPriceExpression };
 
-        // Validate prices
-        const defaultPrice = parseEther(c.defaultPriceETH);
-        if (defaultPrice <= 0) {
-            throw new Error(
-                `Invalid default price for collection ${c.tokenAddress}:${c.tokenId}: ${c.defaultPriceETH}`
-            );
+            // Evaluated against the market before every poll
+            c.defaultPrice = 0n;
+            c.minPrice = 0n;
+        } else {
+            c.defaultPrice = defaultPriceExpression.offset;
+            c.minPrice = minPriceExpression.offset;
         }
-        c.defaultPrice = defaultPrice;
 
-        const minPrice = parseEther(c.minPriceETH);
-        if (minPrice <= 0) {
-            throw new Error(
-                `Invalid min price for collection ${c.tokenAddress}:${c.tokenId}: ${c.minPriceETH}`
-            );
-        }
-        c.minPrice = minPrice;
+        // Set price gap between staggered listings (default to 0, i.e. same price)
+        c.priceGap = c.priceGapETH ? parseEther(String(c.priceGapETH)) : 0n;
 
-        if (defaultPrice < minPrice) {
-            throw new Error(
-                `Min price must be less than or equal to default price for collection ${c.tokenAddress}:${c.tokenId}`
-            );
-        }
+        // Set quantity (default to 1, only ERC1155 tokens can be listed in larger quantities)
+        c.quantity = c.quantity !== undefined && c.quantity !== null ? c.quantity : 1;
+        c.remainingQuantities = {};
 
         c.shouldCompareToRest = c.shouldCompareToRest || false;
 
-        logger.debug(
-            `Tracking listing ${c.collectionSlug} (tokenId=${c.tokenId}) on ${c.chain} ...`
-        );
+        // Set tighten gap (default to 0, i.e. reprice as soon as there is room)
+        c.shouldTighten = c.shouldTighten || false;
+        c.tightenGap = c.tightenGapETH ? parseEther(String(c.tightenGapETH)) : 0n;
+
+        // Validate the overrides of the global expiration policy
+        validateExpirationPolicy(getExpirationPolicy(c.expiration), `collection ${tokens}`);
+
+        if (c.autoDiscover) {
+            logger.debug(
+                `Tracking listing ${c.collectionSlug} (auto-discovered tokens) on ${c.chain} (quantity: ${c.quantity}) ...`
+            );
+        } else {
+            logger.debug(
+                `Tracking listing ${c.collectionSlug} (tokenIds=${c.tokenIds.join(',')}) on ${c.chain} (quantity: ${c.quantity}) ...`
+            );
+        }
         collections.push(c);
     }
 
@@ -71,74 +140,34 @@ export const initializeCollections = (
 };
 
 /**
- * Initializes offer collections from the configuration file
- * @param collectionPath Path to the collections configuration file
- * @param providers Record of RPC providers by chain
+ * Initializes offer collections from the configuration
+ * @param config The configuration read from the file, left as written
  * @returns Array of initialized offer collections
  */
-export const initializeOfferCollections = (
-    collectionPath: string,
-    providers: Record<string, any>
-): OfferCollection[] => {
-    const fileContent = fs.readFileSync(collectionPath, 'utf-8');
-    const parsedConfig: CollectionsConfig = JSON.parse(fileContent);
-
-    const offers = parsedConfig.offers || [];
+export const initializeOfferCollections = (config: CollectionsConfig): OfferCollection[] => {
+    const offers = structuredClone(config.offers) as OfferCollection[];
     const offerCollections: OfferCollection[] = [];
 
     for (let c of offers) {
-        // Validate against providers
-        if (!providers[c.chain]) {
-            throw new Error(
-                `No RPC provider configured for chain ${c.chain} (needed by ${c.collectionSlug}). Did you run initializeClients()?`
-            );
-        }
-
-        // Validate: cannot have both tokenId and trait
-        if (c.tokenId && c.trait) {
-            throw new Error(
-                `Cannot specify both tokenId and trait for collection ${c.collectionSlug}. Use tokenId for single offers or trait for trait offers, but not both.`
-            );
-        }
-
         // Infer offer type from configuration
         const offerType = inferOfferType(c);
 
-        // Validate trait offers have required fields
-        if (offerType === 'trait') {
-            if (!c.trait) {
-                throw new Error(
-                    `trait is required for trait offers in collection ${c.collectionSlug}`
-                );
-            }
-            if (!c.trait.traitType || !c.trait.value) {
-                throw new Error(
-                    `trait.traitType and trait.value are required for trait offers in collection ${c.collectionSlug}`
-                );
+        // Prices are either fixed or relative to the market
+        const defaultPriceExpression = parsePriceExpression(c.defaultPriceETH);
+        const maxPriceExpression = parsePriceExpression(c.maxPriceETH);
+        if (defaultPriceExpression.reference || maxPriceExpression.reference) {
+            c.hardMaxPrice = parseEther(String(c.hardMaxPriceETH));
+            if (c.hardMinPriceETH !== undefined) {
+                c.hardMinPrice = parseEther(String(c.hardMinPriceETH));
             }
-        }
+            c.priceExpressions = { default: defaultPriceExpression, max: maxPriceExpression };
 
-        // Validate prices
-        const defaultPrice = parseEther(c.defaultPriceETH);
-        if (defaultPrice <= 0) {
-            throw new Error(
-                `Invalid default price for offer collection ${c.collectionSlug}: ${c.defaultPriceETH}`
-            );
-        }
-        c.defaultPrice = defaultPrice;
-
-        const maxPrice = parseEther(c.maxPriceETH);
-        if (maxPrice <= 0) {
-            throw new Error(
-                `Invalid max price for offer collection ${c.collectionSlug}: ${c.maxPriceETH}`
-            );
-        }
-        c.maxPrice = maxPrice;
-
-        if (defaultPrice > maxPrice) {
-            throw new Error(
-                `Default price must be less than or equal to max price for offer collection ${c.collectionSlug}`
-            );
+            // Evaluated against the market before every poll
+            c.defaultPrice = 0n;
+            c.maxPrice = 0n;
+        } else {
+            c.defaultPrice = defaultPriceExpression.offset;
+            c.maxPrice = maxPriceExpression.offset;
         }
 
         c.shouldCompareToRest = c.shouldCompareToRest || false;
@@ -146,36 +175,52 @@ export const initializeOfferCollections = (
         // Set quantity (default to 1, only applies to collection/trait offers)
         if (offerType === 'collection' || offerType === 'trait') {
             c.quantity = c.quantity !== undefined && c.quantity !== null ? c.quantity : 1;
-            if (c.quantity < 1) {
-                throw new Error(
-                    `Quantity must be at least 1 for offer collection ${c.collectionSlug}`
-                );
-            }
         } else {
             // Single token offers always have quantity 1
             c.quantity = 1;
         }
 
         // Set price decimals (default to 4, i.e. 0.0001 ETH increments)
-        const priceDecimals =
+        c.priceDecimals =
             c.priceDecimals !== undefined && c.priceDecimals !== null
                 ? c.priceDecimals
                 : DEFAULT_PRICE_DECIMALS;
-        if (priceDecimals < 1 || priceDecimals > 18) {
-            throw new Error(
-                `Price decimals must be between 1 and 18 for offer collection ${c.collectionSlug}`
-            );
+
+        // Set the optional budget shared by all offers of the collection
+        if (c.budgetETH !== undefined) {
+            c.budget = parseEther(String(c.budgetETH));
+        }
+        c.exposure = 0n;
+        c.reserved = 0n;
+        c.acquired = 0;
+
+        c.shouldLower = c.shouldLower || false;
+
+        // Set the ladder of lower price tiers
+        for (const tier of c.tiers || []) {
+            if (tier.minPriceETH !== undefined) {
+                tier.minPrice = parseEther(String(tier.minPriceETH));
+            }
+            if (tier.maxPriceETH !== undefined) {
+                tier.maxPrice = parseEther(String(tier.maxPriceETH));
+            }
+            tier.exposure = 0n;
         }
-        c.priceDecimals = priceDecimals;
+
+        // Validate the overrides of the global expiration policy
+        validateExpirationPolicy(
+            getExpirationPolicy(c.expiration),
+            `offer collection ${c.collectionSlug}`
+        );
 
         // Log based on offer type
         if (offerType === 'collection') {
             logger.debug(
-                `Tracking collection offer ${c.collectionSlug} on ${c.chain} (quantity: ${c.quantity}) ...`
+                `Tracking collection offer ${c.collectionSlug} on ${c.chain} (quantity: ${c.quantity}${c.tiers ? `, ${c.tiers.length} tier(s)` : ''}) ...`
             );
         } else if (offerType === 'trait' && c.trait) {
             logger.debug(
-                `Tracking trait offer ${c.collectionSlug} (${c.trait.traitType}: ${c.trait.value}) on ${c.chain} (quantity: ${c.quantity}) ...`
+                `Tracking trait offer ${c.collectionSlug} (${c.trait.traitType}: ${c.trait.value}) on ${c.chain} (quantity: ${c.quantity}${c.tiers ? `, ${c.tiers.length} tier(s)` : ''}) ...`
             );
         } else {
             logger.debug(
@@ -1,111 +1,539 @@
-import { formatEther, getAddress } from 'ethers';
-import { OpenSeaSDK } from 'opensea-js';
+import { formatEther, getAddress, Signer } from 'ethers';
+import { OpenSeaSDK, Listing } from 'opensea-js';
 
 import { logger } from '../utils/logger.js';
 import { Collection } from './types.js';
 import {
+    getAllListings,
     getBestListing,
+    cancelListing,
     getSingleBestListing,
     createListing,
+    preflightListing,
     sumOfferEndAmounts,
+    getListingQuantity,
+    getListingPricePerUnit,
 } from '../listings/index.js';
-import { isETHOrWETH } from '../offers/paymentTokens.js';
+import { isListingInETH } from '../offers/paymentTokens.js';
+import { resolveListingPriceBounds } from './priceBounds.js';
+import { getOurAddresses, isOurAddress } from '../utils/counterparties.js';
+import { guardListingPrice } from './crossGuard.js';
+import { deriveExpirationTime, getExpirationPolicy } from '../expiration/expirationPolicy.js';
 
-const DEFAULT_EXPIRATION_TIME = 5 * 30 * 24 * 60 * 60; // 5 months
+/**
+ * Clients and flags shared by all listing operations of a monitoring run
+ */
+export type ListingContext = {
+    seaport: OpenSeaSDK;
+    signer: Signer;
+    owner: string;
+    dryRun: boolean;
+    autoApprove: boolean;
+};
+
+/**
+ * Undercuts a price by 1000 wei, without going below the min price
+ * Any lower than 1000 wei and OpenSea will complain about not getting its 250 basis points.
+ * @param price The price to undercut in wei
+ * @param minPrice The min price in wei
+ * @returns The undercut price in wei
+ */
+const undercutPrice = (price: bigint, minPrice: bigint): bigint => {
+    const newPrice = (price / 1000n) * 1000n - 1000n;
+    return newPrice < minPrice ? minPrice : newPrice;
+};
+
+/**
+ * Derives the target price and expiration time of our listing from the best competing listing
+ * @param c The collection configuration
+ * @param competingListing The best listing from another wallet, if any
+ * @returns The target price per unit in wei and the expiration timestamp
+ */
+const deriveListingTarget = (
+    c: Collection,
+    competingListing?: Listing
+): { price: bigint; expirationTime: number } => {
+    const policy = getExpirationPolicy(c.expiration);
+    if (!competingListing || !competingListing.protocol_data?.parameters) {
+        return { price: c.defaultPrice, expirationTime: deriveExpirationTime(policy) };
+    }
+
+    const price = getListingPricePerUnit(competingListing);
+    const competingExpirationTime = Number(competingListing.protocol_data.parameters.endTime);
+    if (price > c.defaultPrice) {
+        // If best listing is above our default price, use default price
+        return {
+            price: c.defaultPrice,
+            expirationTime: deriveExpirationTime(policy, competingExpirationTime),
+        };
+    }
+    if (price > c.minPrice) {
+        return {
+            price: undercutPrice(price, c.minPrice),
+            expirationTime: deriveExpirationTime(policy, competingExpirationTime),
+        };
+    }
+    return { price: c.minPrice, expirationTime: deriveExpirationTime(policy, undefined, true) };
+};
+
+/**
+ * Resolves how many units of a token to list, accounting for partial fills of our listing
+ * @param c The collection configuration
+ * @param tokenId The token ID to list
+ * @param ourListing Our current listing for the token, if any
+ * @returns The quantity to list
+ */
+const resolveListingQuantity = (c: Collection, tokenId: string, ourListing?: Listing): number => {
+    if (ourListing) {
+        const listedQuantity = Number(sumOfferEndAmounts(ourListing));
+        const remainingQuantity = getListingQuantity(ourListing);
+        const previousQuantity = c.remainingQuantities[tokenId] ?? c.quantity ?? 1;
+        if (remainingQuantity < listedQuantity && remainingQuantity < previousQuantity) {
+            logger.info(
+                `Our listing for ${c.collectionSlug} (tokenId=${tokenId}) was partially filled (${listedQuantity - remainingQuantity}/${listedQuantity} sold), ${remainingQuantity} unit(s) left to list`
+            );
+            c.remainingQuantities[tokenId] = remainingQuantity;
+        }
+    }
+    return c.remainingQuantities[tokenId] ?? c.quantity ?? 1;
+};
+
+/**
+ * Checks if some units of our listing were sold
+ * @param listing Our listing
+ * @returns True if fewer units are left than were listed
+ */
+const isPartiallyFilled = (listing: Listing): boolean =>
+    getListingQuantity(listing) < Number(sumOfferEndAmounts(listing));
+
+/**
+ * Removes a token we no longer own from its listing entry, disabling the entry once empty
+ * @param c The collection configuration
+ * @param tokenId The token ID to remove
+ */
+const disableToken = (c: Collection, tokenId: string) => {
+    c.tokenIds = c.tokenIds.filter((id) => id !== tokenId);
+    logger.warn(
+        `Our ${c.collectionSlug} NFT (tokenId=${tokenId}) is no longer owned by us. Disabling it ...`
+    );
+    if (c.tokenIds.length === 0) {
+        c.disabled = true;
+        logger.warn(
+            `No tokens left to list for ${c.collectionSlug}. Disabling the listing entry ...`
+        );
+    }
+};
+
+/**
+ * Runs the onchain pre-flight checks for a token and caps the quantity to the owned balance
+ * @param c The collection configuration
+ * @param tokenId The token ID to list
+ * @param quantity The quantity we intend to list
+ * @param ctx The listing context
+ * @returns The quantity to list, or 0 if the token is no longer owned
+ */
+export const preflightToken = async (
+    c: Collection,
+    tokenId: string,
+    quantity: number,
+    ctx: ListingContext
+): Promise<number> => {
+    const balance = await preflightListing(
+        ctx.signer,
+        c.chain,
+        c.collectionSlug,
+        c.tokenAddress,
+        tokenId,
+        ctx.autoApprove,
+        ctx.dryRun
+    );
+    if (balance === 0) {
+        disableToken(c, tokenId);
+        return 0;
+    }
+    if (balance < quantity) {
+        logger.info(
+            `Only ${balance} unit(s) of ${c.collectionSlug} (tokenId=${tokenId}) held onchain, listing ${balance} instead of ${quantity}`
+        );
+        c.remainingQuantities[tokenId] = balance;
+        return balance;
+    }
+    return quantity;
+};
+
+/**
+ * Lists a token after running the onchain pre-flight checks
+ * @param c The collection configuration
+ * @param tokenId The token ID to list
+ * @param price The price per unit in wei
+ * @param expirationTime The expiration timestamp
+ * @param quantity The quantity we intend to list
+ * @param ctx The listing context
+ * @param replacedListing Our listing the new one replaces, canceled first so its units are not
+ * listed twice
+ */
+const listToken = async (
+    c: Collection,
+    tokenId: string,
+    price: bigint,
+    expirationTime: number,
+    quantity: number,
+    ctx: ListingContext,
+    replacedListing?: Listing
+) => {
+    // Check ownership before canceling so a sold token is not relisted
+    const listQuantity = await preflightToken(c, tokenId, quantity, ctx);
+    if (listQuantity === 0) {
+        return;
+    }
+    if (!(await guardListingPrice(c, tokenId, price, ctx.seaport, ctx.owner))) {
+        return;
+    }
+
+    if (replacedListing) {
+        await cancelListing(ctx.seaport, c.collectionSlug, replacedListing, ctx.owner, ctx.dryRun);
+    }
+
+    logger.debug(
+        `Listing ${c.collectionSlug} (tokenId=${tokenId}) at ${formatEther(price)} ETH (quantity: ${listQuantity}) ...`
+    );
+    await createListing(
+        ctx.seaport,
+        c.collectionSlug,
+        c.tokenAddress,
+        tokenId,
+        price,
+        expirationTime,
+        ctx.owner,
+        listQuantity,
+        ctx.dryRun
+    );
+};
 
 /**
  * Monitors a specific NFT collection and creates/updates listings as needed
  * @param c The collection configuration
  * @param seaport The OpenSea SDK instance
+ * @param signer The wallet connected to the chain's RPC provider, used for pre-flight checks
  * @param owner The wallet owner
  * @param dryRun If true, skip actual listing creation
+ * @param autoApprove If true, approve the OpenSea conduit when a pre-flight check finds it missing
  */
 export const monitorCollection = async (
     c: Collection,
     seaport: OpenSeaSDK,
+    signer: Signer,
     owner: string,
-    dryRun: boolean = false
+    dryRun: boolean = false,
+    autoApprove: boolean = false
 ) => {
-    logger.debug(`Checking ${c.collectionSlug} (tokenId=${c.tokenId}) ...`);
+    if (c.disabled || c.tokenIds.length === 0) {
+        logger.debug(`No tokens to list for ${c.collectionSlug}. Skipping...`);
+        return;
+    }
+
+    const ctx: ListingContext = { seaport, signer, owner, dryRun, autoApprove };
+
+    if (c.shouldCompareToRest) {
+        // The best competing listing of the collection is the floor the price bounds follow
+        const competingListing = await getBestListing(
+            seaport,
+            c.collectionSlug,
+            undefined,
+            undefined,
+            getOurAddresses(owner)
+        );
+        const floor = competingListing ? getListingPricePerUnit(competingListing) : undefined;
+        if (!(await resolveListingPriceBounds(c, seaport, owner, { floor }))) {
+            return;
+        }
+        await monitorListingGroup(c, competingListing, ctx);
+        return;
+    }
 
-    const bestListing = c.shouldCompareToRest
-        ? await getBestListing(seaport, c.collectionSlug)
-        : await getSingleBestListing(seaport, c.collectionSlug, c.tokenAddress, c.tokenId);
+    // Follow the market when the price bounds are relative
+    if (!(await resolveListingPriceBounds(c, seaport, owner))) {
+        return;
+    }
+
+    // A failing token does not keep the others from being monitored
+    for (const tokenId of c.tokenIds) {
+        try {
+            await monitorSingleListing(c, tokenId, ctx);
+        } catch (err) {
+            logger.error(`Error monitoring ${c.collectionSlug} (tokenId=${tokenId}):`, err);
+        }
+    }
+};
+
+/**
+ * Monitors the listing of a single token against other listings of the same token
+ * @param c The collection configuration
+ * @param tokenId The token ID to list
+ * @param ctx The listing context
+ */
+const monitorSingleListing = async (c: Collection, tokenId: string, ctx: ListingContext) => {
+    const { seaport, owner } = ctx;
+    logger.debug(`Checking ${c.collectionSlug} (tokenId=${tokenId}) ...`);
+
+    const bestListing = await getSingleBestListing(seaport, c.tokenAddress, tokenId);
 
     let price: bigint;
     let expirationTime: number;
+    let ourListing: Listing | undefined;
 
     if (!bestListing || !bestListing.protocol_data || !bestListing.protocol_data.parameters) {
-        logger.debug(`Did not find a listing for ${c.collectionSlug} (tokenId=${c.tokenId}) ...`);
+        logger.debug(`Did not find a listing for ${c.collectionSlug} (tokenId=${tokenId}) ...`);
         // If no best listing, create a new listing with the starting price
         price = c.defaultPrice;
-        expirationTime = Math.floor(Date.now() / 1000) + DEFAULT_EXPIRATION_TIME;
+        expirationTime = deriveExpirationTime(getExpirationPolicy(c.expiration));
     } else {
-        if (!isETHOrWETH(bestListing.price.current.currency)) {
-            // TODO: Handle this case by converting to the price of ETH
-            logger.error(
-                `Best listing for ${c.collectionSlug} (tokenId=${c.tokenId}) is not in ETH or WETH (currency: ${bestListing.price.current.currency}). Skipping...`
+        price = getListingPricePerUnit(bestListing);
+
+        const lister = getAddress(bestListing.protocol_data.parameters.offerer);
+        if (lister.toLowerCase() !== owner.toLowerCase() && isOurAddress(lister, owner)) {
+            logger.debug(
+                `Friendly wallet ${lister} has the lowest listing for ${c.collectionSlug} (tokenId=${tokenId}) at price ${formatEther(price)} ETH. Skipping...`
             );
             return;
         }
-
-        price = BigInt(bestListing.price.current.value) / sumOfferEndAmounts(bestListing);
-
-        // TODO: Need to also compare token ids as if we have more than one token ids to be listed
-        // in the collection then only one will get listed and the rest will be ignored.
-        const lister = getAddress(bestListing.protocol_data.parameters.offerer);
         if (lister.toLowerCase() === owner.toLowerCase()) {
+            // Relist the units left after a partial fill before skipping our lowest listing
+            if (isPartiallyFilled(bestListing)) {
+                await listToken(
+                    c,
+                    tokenId,
+                    price,
+                    Number(bestListing.protocol_data.parameters.endTime),
+                    resolveListingQuantity(c, tokenId, bestListing),
+                    ctx,
+                    bestListing
+                );
+                return;
+            }
+            if (c.shouldTighten) {
+                await tightenListing(c, tokenId, bestListing, ctx);
+                return;
+            }
             logger.debug(
-                `Already have the lowest listing for ${c.collectionSlug} (tokenId=${c.tokenId}) at price ${formatEther(price)} ETH. Skipping...`
+                `Already have the lowest listing for ${c.collectionSlug} (tokenId=${tokenId}) at price ${formatEther(price)} ETH. Skipping...`
             );
             return;
         }
 
         logger.debug(
-            `Found best listing for ${c.collectionSlug} (tokenId=${c.tokenId}) at ${formatEther(price)} ETH`
+            `Found best listing for ${c.collectionSlug} (tokenId=${tokenId}) at ${formatEther(price)} ETH`
         );
 
         if (price > c.defaultPrice) {
             // If best listing is above our default price, use default price
             price = c.defaultPrice;
-            expirationTime = Number(bestListing.protocol_data.parameters.endTime);
+            expirationTime = deriveExpirationTime(
+                getExpirationPolicy(c.expiration),
+                Number(bestListing.protocol_data.parameters.endTime)
+            );
         } else if (price > c.minPrice) {
-            // Subtract 1000 wei from the lowest price to undercut it
-            // Any lower than 1000 wei and OpenSea will complain about not getting its 250 basis points.
-            const newPrice = (price / 1000n) * 1000n - 1000n;
-            price = newPrice < c.minPrice ? c.minPrice : newPrice;
-            expirationTime = Number(bestListing.protocol_data.parameters.endTime);
+            price = undercutPrice(price, c.minPrice);
+            expirationTime = deriveExpirationTime(
+                getExpirationPolicy(c.expiration),
+                Number(bestListing.protocol_data.parameters.endTime)
+            );
         } else {
             // Use getBestListing with offerer to check if our NFT is listed at min price
-            const ourListing = await getBestListing(seaport, c.collectionSlug, c.tokenId, owner);
-            const listedPrice = ourListing
-                ? BigInt(ourListing.price.current.value) / sumOfferEndAmounts(ourListing)
-                : 0n;
-            if (
-                ourListing &&
-                isETHOrWETH(ourListing.price.current.currency) &&
-                listedPrice <= c.minPrice
-            ) {
+            ourListing = await getBestListing(seaport, c.collectionSlug, tokenId, owner);
+            const listedPrice = ourListing ? getListingPricePerUnit(ourListing) : 0n;
+            if (ourListing && isListingInETH(ourListing) && listedPrice <= c.minPrice) {
                 logger.debug(
-                    `Our ${c.collectionSlug} NFT (tokenId=${c.tokenId}) is already listed at price ${formatEther(listedPrice)} ETH which is equal or lower than min price ${formatEther(c.minPrice)} ETH. Skipping...`
+                    `Our ${c.collectionSlug} NFT (tokenId=${tokenId}) is already listed at price ${formatEther(listedPrice)} ETH which is equal or lower than min price ${formatEther(c.minPrice)} ETH. Skipping...`
                 );
                 return;
             }
             price = c.minPrice;
-            expirationTime = Math.floor(Date.now() / 1000) + 12 * 60 * 60; // 12 hours
+            expirationTime = deriveExpirationTime(
+                getExpirationPolicy(c.expiration),
+                undefined,
+                true
+            );
         }
     }
-    logger.debug(
-        `Listing ${c.collectionSlug} (tokenId=${c.tokenId}) at ${formatEther(price)} ETH ...`
+
+    // Only ERC1155 entries can be partially filled, so avoid the extra lookup for single units
+    const multiUnit = (c.quantity ?? 1) > 1;
+    if (!ourListing && multiUnit) {
+        ourListing = await getBestListing(seaport, c.collectionSlug, tokenId, owner);
+    }
+    const quantity = resolveListingQuantity(c, tokenId, ourListing);
+
+    await listToken(
+        c,
+        tokenId,
+        price,
+        expirationTime,
+        quantity,
+        ctx,
+        multiUnit ? ourListing : undefined
     );
-    await createListing(
-        seaport,
+};
+
+/**
+ * Monitors the listings of a group of tokens against the rest of the collection.
+ * Only listings from other wallets are undercut so our own and friendly listings never
+ * compete with each other. The cheapest of our tokens is listed just below the best competing listing
+ * and the rest are staggered upwards by the configured price gap, capped at the default price.
+ * @param c The collection configuration
+ * @param bestListing The best listing of the collection from other wallets, if any
+ * @param ctx The listing context
+ */
+const monitorListingGroup = async (
+    c: Collection,
+    bestListing: Listing | undefined,
+    ctx: ListingContext
+) => {
+    const { seaport, owner } = ctx;
+    const tokens = `${c.collectionSlug} (tokenIds=${c.tokenIds.join(',')})`;
+    logger.debug(`Checking ${tokens} ...`);
+
+    if (!bestListing || !bestListing.protocol_data || !bestListing.protocol_data.parameters) {
+        logger.debug(`Did not find a competing listing for ${tokens} ...`);
+    } else {
+        logger.debug(
+            `Found best competing listing for ${tokens} at ${formatEther(getListingPricePerUnit(bestListing))} ETH`
+        );
+    }
+    const { price: basePrice, expirationTime } = deriveListingTarget(c, bestListing);
+
+    const ourListings = getCheapestListingsByToken(
+        await getAllListings(seaport, c.collectionSlug, undefined, owner)
+    );
+
+    for (const [index, tokenId] of c.tokenIds.entries()) {
+        let price = basePrice + BigInt(index) * c.priceGap;
+        if (price > c.defaultPrice) {
+            price = c.defaultPrice;
+        }
+
+        const ourListing = ourListings.get(tokenId);
+        const listedPrice = ourListing ? getListingPricePerUnit(ourListing) : undefined;
+        if (ourListing && c.shouldTighten && listedPrice !== undefined && listedPrice < price) {
+            if (price - listedPrice > c.tightenGap) {
+                try {
+                    await repriceListing(c, tokenId, ourListing, price, expirationTime, ctx);
+                } catch (err) {
+                    logger.error(`Error repricing ${c.collectionSlug} (tokenId=${tokenId}):`, err);
+                }
+                continue;
+            }
+        }
+        if (listedPrice !== undefined && listedPrice <= price) {
+            logger.debug(
+                `Our ${c.collectionSlug} NFT (tokenId=${tokenId}) is already listed at price ${formatEther(listedPrice)} ETH which is equal or lower than target price ${formatEther(price)} ETH. Skipping...`
+            );
+            continue;
+        }
+
+        const quantity = resolveListingQuantity(c, tokenId, ourListing);
+        try {
+            await listToken(
+                c,
+                tokenId,
+                price,
+                expirationTime,
+                quantity,
+                ctx,
+                (c.quantity ?? 1) > 1 ? ourListing : undefined
+            );
+        } catch (err) {
+            logger.error(`Error listing ${c.collectionSlug} (tokenId=${tokenId}):`, err);
+        }
+    }
+};
+
+/**
+ * Reprices our listing upwards when it is the cheapest one by more than the tighten gap,
+ * relisting just under the next competing listing and capped at the default price
+ * @param c The collection configuration
+ * @param tokenId The token ID of our listing
+ * @param ourListing Our current (cheapest) listing for the token
+ * @param ctx The listing context
+ */
+const tightenListing = async (
+    c: Collection,
+    tokenId: string,
+    ourListing: Listing,
+    ctx: ListingContext
+) => {
+    const listedPrice = getListingPricePerUnit(ourListing);
+    const competingListing = await getBestListing(
+        ctx.seaport,
         c.collectionSlug,
-        c.tokenAddress,
-        c.tokenId,
+        tokenId,
+        undefined,
+        getOurAddresses(ctx.owner)
+    );
+    const { price, expirationTime } = deriveListingTarget(c, competingListing);
+    if (price <= listedPrice || price - listedPrice <= c.tightenGap) {
+        logger.debug(
+            `Already have the lowest listing for ${c.collectionSlug} (tokenId=${tokenId}) at price ${formatEther(listedPrice)} ETH within ${formatEther(c.tightenGap)} ETH of target price ${formatEther(price)} ETH. Skipping...`
+        );
+        return;
+    }
+
+    await repriceListing(c, tokenId, ourListing, price, expirationTime, ctx);
+};
+
+/**
+ * Cancels our listing and relists the token at a higher price
+ * The old listing is canceled first so the cheaper order can no longer be filled
+ * @param c The collection configuration
+ * @param tokenId The token ID of our listing
+ * @param ourListing Our current listing for the token
+ * @param price The new price per unit in wei
+ * @param expirationTime The new expiration timestamp
+ * @param ctx The listing context
+ */
+const repriceListing = async (
+    c: Collection,
+    tokenId: string,
+    ourListing: Listing,
+    price: bigint,
+    expirationTime: number,
+    ctx: ListingContext
+) => {
+    const listedPrice = getListingPricePerUnit(ourListing);
+    logger.info(
+        `Our listing for ${c.collectionSlug} (tokenId=${tokenId}) at ${formatEther(listedPrice)} ETH is ${formatEther(price - listedPrice)} ETH under target price ${formatEther(price)} ETH. Repricing ...`
+    );
+
+    await listToken(
+        c,
+        tokenId,
         price,
         expirationTime,
-        owner,
-        dryRun
+        resolveListingQuantity(c, tokenId, ourListing),
+        ctx,
+        ourListing
     );
 };
+
+/**
+ * Indexes the cheapest ETH/WETH listing per token across a set of listings
+ * @param listings The listings to index
+ * @returns Map of token ID to the cheapest listing per unit
+ */
+const getCheapestListingsByToken = (listings: Listing[]): Map<string, Listing> => {
+    const cheapest = new Map<string, Listing>();
+    for (const listing of listings) {
+        if (!isListingInETH(listing)) {
+            continue;
+        }
+        const price = getListingPricePerUnit(listing);
+        for (const item of listing.protocol_data.parameters.offer) {
+            const tokenId = String(item.identifierOrCriteria);
+            const current = cheapest.get(tokenId);
+            if (!current || price < getListingPricePerUnit(current)) {
+                cheapest.set(tokenId, listing);
+            }
+        }
+    }
+    return cheapest;
+};
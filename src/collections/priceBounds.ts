@@ -0,0 +1,260 @@
+import { formatEther, parseEther, parseUnits } from 'ethers';
+import { OpenSeaSDK } from 'opensea-js';
+
+import { logger } from '../utils/logger.js';
+import { getOurAddresses } from '../utils/counterparties.js';
+import { getBestListing } from '../listings/getBestListing.js';
+import { getListingPricePerUnit } from '../listings/utils.js';
+import { getBestCollectionOffer } from '../offers/getBestCollectionOffer.js';
+import { getOfferPricePerItem } from '../offers/utils.js';
+import { getListingBook, getOfferBook } from '../orderbook/index.js';
+import {
+    Collection,
+    OfferCollection,
+    PriceExpression,
+    PriceReference,
+    PriceReferences,
+} from './types.js';
+
+const BPS = 10000n;
+
+// Market prices by order book snapshot and owner, shared by every entry of the collection
+const referenceCache = new WeakMap<object, Map<string, Promise<bigint | undefined>>>();
+
+// e.g. "85% of floor", "floor - 10%", "bestOffer + 5%", "90% bestOffer + 0.01"
+const PRICE_EXPRESSION_REGEX =
+    /^(?:(\d+(?:\.\d+)?)%\s*(?:of\s+)?)?(floor|bestOffer)(?:\s*([+-])\s*(\d+(?:\.\d+)?)\s*(%)?)?$/;
+
+/**
+ * Parses a price bound from the configuration, either a fixed ETH amount or an expression
+ * relative to a market price
+ * @param value The configured price, e.g. "0.1" or "85% of floor"
+ * @returns The parsed price expression
+ */
+export const parsePriceExpression = (value: string | number): PriceExpression => {
+    const text = String(value).trim();
+    const match = PRICE_EXPRESSION_REGEX.exec(text);
+    if (!match) {
+        // Not an expression, so it has to be a fixed ETH amount
+        return { scaleBps: 0n, offsetBps: 0n, offset: parseEther(text) };
+    }
+
+    const [, scale, reference, sign, amount, isPercent] = match;
+    const signedAmount = (v: bigint) => (sign === '-' ? -v : v);
+    return {
+        reference: reference as PriceReference,
+        scaleBps: scale ? parseUnits(scale, 2) : BPS,
+        offsetBps: amount && isPercent ? signedAmount(parseUnits(amount, 2)) : 0n,
+        offset: amount && !isPercent ? signedAmount(parseEther(amount)) : 0n,
+    };
+};
+
+/**
+ * Evaluates a price expression against the current market prices
+ * @param expression The price expression
+ * @param references The current market prices
+ * @returns The price in wei, or undefined if the market price is not available
+ */
+const evaluatePriceExpression = (
+    expression: PriceExpression,
+    references: PriceReferences
+): bigint | undefined => {
+    if (!expression.reference) {
+        return expression.offset;
+    }
+
+    const reference = references[expression.reference];
+    if (reference === undefined) {
+        return undefined;
+    }
+
+    const price =
+        (reference * expression.scaleBps) / BPS +
+        (reference * expression.offsetBps) / BPS +
+        expression.offset;
+    return price > 0n ? price : undefined;
+};
+
+/**
+ * Looks up a market price once per order book snapshot
+ * A failed lookup is not reused.
+ * @param book The order book snapshot the price is read from
+ * @param owner The wallet owner address
+ * @param lookup Looks up the price
+ * @returns The price, or undefined if the market has none
+ */
+const getCachedReference = (
+    book: object,
+    owner: string,
+    lookup: () => Promise<bigint | undefined>
+): Promise<bigint | undefined> => {
+    let prices = referenceCache.get(book);
+    if (!prices) {
+        prices = new Map();
+        referenceCache.set(book, prices);
+    }
+    const key = owner.toLowerCase();
+    let price = prices.get(key);
+    if (!price) {
+        price = lookup();
+        prices.set(key, price);
+        price.catch(() => prices.delete(key));
+    }
+    return price;
+};
+
+/**
+ * Gets the market prices referenced by a set of price expressions
+ * Our own and friendly orders are ignored so the bounds never follow our own prices.
+ * @param seaport The OpenSea SDK instance
+ * @param collectionSlug The collection slug
+ * @param expressions The price expressions to evaluate
+ * @param owner The wallet owner address
+ * @param known Market prices the caller already looked up, not looked up again
+ * @returns The market prices by reference
+ */
+const getPriceReferences = async (
+    seaport: OpenSeaSDK,
+    collectionSlug: string,
+    expressions: PriceExpression[],
+    owner: string,
+    known: PriceReferences = {}
+): Promise<PriceReferences> => {
+    const references: PriceReferences = { ...known };
+    const isMissing = (reference: PriceReference) =>
+        !(reference in known) && expressions.some((e) => e.reference === reference);
+
+    if (isMissing('floor')) {
+        const book = await getListingBook(seaport, collectionSlug);
+        references.floor = await getCachedReference(book, owner, async () => {
+            const floorListing = await getBestListing(
+                seaport,
+                collectionSlug,
+                undefined,
+                undefined,
+                getOurAddresses(owner)
+            );
+            return floorListing ? getListingPricePerUnit(floorListing) : undefined;
+        });
+    }
+
+    if (isMissing('bestOffer')) {
+        const book = await getOfferBook(seaport, collectionSlug);
+        references.bestOffer = await getCachedReference(book, owner, async () => {
+            const bestOffer = await getBestCollectionOffer(
+                seaport,
+                collectionSlug,
+                undefined,
+                undefined,
+                getOurAddresses(owner)
+            );
+            return bestOffer ? getOfferPricePerItem(bestOffer) : undefined;
+        });
+    }
+
+    return references;
+};
+
+/**
+ * Re-evaluates the relative price bounds of a listing entry within its hard min and max prices
+ * @param c The collection configuration, updated in place
+ * @param seaport The OpenSea SDK instance
+ * @param owner The wallet owner address
+ * @param known Market prices the caller already looked up
+ * @returns False if the bounds cannot be evaluated for lack of market data
+ */
+export const resolveListingPriceBounds = async (
+    c: Collection,
+    seaport: OpenSeaSDK,
+    owner: string,
+    known?: PriceReferences
+): Promise<boolean> => {
+    if (!c.priceExpressions) {
+        return true;
+    }
+
+    const expressions = c.priceExpressions;
+    const references = await getPriceReferences(
+        seaport,
+        c.collectionSlug,
+        [expressions.default, expressions.min],
+        owner,
+        known
+    );
+    const defaultPrice = evaluatePriceExpression(expressions.default, references);
+    let minPrice = evaluatePriceExpression(expressions.min, references);
+    if (defaultPrice === undefined || minPrice === undefined) {
+        logger.warn(
+            `Missing market data to evaluate the price bounds of ${c.collectionSlug}. Skipping...`
+        );
+        return false;
+    }
+
+    if (minPrice < c.hardMinPrice!) {
+        minPrice = c.hardMinPrice!;
+    }
+    if (c.hardMaxPrice !== undefined && minPrice > c.hardMaxPrice) {
+        minPrice = c.hardMaxPrice;
+    }
+    c.minPrice = minPrice;
+    c.defaultPrice = defaultPrice < minPrice ? minPrice : defaultPrice;
+    if (c.hardMaxPrice !== undefined && c.defaultPrice > c.hardMaxPrice) {
+        c.defaultPrice = c.hardMaxPrice;
+    }
+    logger.debug(
+        `Price bounds for ${c.collectionSlug}: default ${formatEther(c.defaultPrice)} ETH, min ${formatEther(c.minPrice)} ETH`
+    );
+    return true;
+};
+
+/**
+ * Re-evaluates the relative price bounds of an offer entry within its hard min and max prices
+ * @param c The offer collection configuration, updated in place
+ * @param seaport The OpenSea SDK instance
+ * @param owner The wallet owner address
+ * @param known Market prices the caller already looked up
+ * @returns False if the bounds cannot be evaluated for lack of market data
+ */
+export const resolveOfferPriceBounds = async (
+    c: OfferCollection,
+    seaport: OpenSeaSDK,
+    owner: string,
+    known?: PriceReferences
+): Promise<boolean> => {
+    if (!c.priceExpressions) {
+        return true;
+    }
+
+    const expressions = c.priceExpressions;
+    const references = await getPriceReferences(
+        seaport,
+        c.collectionSlug,
+        [expressions.default, expressions.max],
+        owner,
+        known
+    );
+    const defaultPrice = evaluatePriceExpression(expressions.default, references);
+    let maxPrice = evaluatePriceExpression(expressions.max, references);
+    if (defaultPrice === undefined || maxPrice === undefined) {
+        logger.warn(
+            `Missing market data to evaluate the price bounds of ${c.collectionSlug}. Skipping...`
+        );
+        return false;
+    }
+
+    if (maxPrice > c.hardMaxPrice!) {
+        maxPrice = c.hardMaxPrice!;
+    }
+    if (c.hardMinPrice !== undefined && maxPrice < c.hardMinPrice) {
+        maxPrice = c.hardMinPrice;
+    }
+    c.maxPrice = maxPrice;
+    c.defaultPrice = defaultPrice > maxPrice ? maxPrice : defaultPrice;
+    if (c.hardMinPrice !== undefined && c.defaultPrice < c.hardMinPrice) {
+        c.defaultPrice = c.hardMinPrice;
+    }
+    logger.debug(
+        `Price bounds for ${c.collectionSlug}: default ${formatEther(c.defaultPrice)} WETH, max ${formatEther(c.maxPrice)} WETH`
+    );
+    return true;
+};
@@ -1,13 +1,79 @@
+import { ExpirationPolicy } from '../expiration/types.js';
+import { EntrySchedule } from '../scheduler/types.js';
+
+/**
+ * Market prices a price bound can follow
+ * - floor: cheapest listing of the collection from other wallets
+ * - bestOffer: best offer on the collection from other wallets
+ */
+export type PriceReference = 'floor' | 'bestOffer';
+
+/**
+ * Market prices referenced by price expressions, unset when not looked up and undefined when
+ * the market has none
+ */
+export type PriceReferences = Partial<Record<PriceReference, bigint | undefined>>;
+
+/**
+ * A price bound, either fixed or relative to a market price,
+ * e.g. "85% of floor" or "bestOffer + 5%"
+ */
+export type PriceExpression = {
+    reference?: PriceReference; // Market price the bound follows, unset for fixed prices
+    scaleBps: bigint; // Share of the reference in basis points (10000 = 100%)
+    offsetBps: bigint; // Signed offset as a share of the reference in basis points
+    offset: bigint; // Signed fixed offset in wei (the price itself for fixed bounds)
+};
+
 export type Collection = {
     chain: string;
     collectionSlug: string;
-    tokenAddress: string;
-    tokenId: string;
+    tokenAddress: string; // Optional for auto-discovered entries, resolved from the wallet holdings
+    tokenId?: string; // Single token to list
+    tokenIds: string[]; // Tokens to list as a group (resolved from tokenId, tokenIds and tokenIdRange)
+    tokenIdRange?: {
+        start: string;
+        end: string;
+    }; // Inclusive range of token IDs to list as a group
+    autoDiscover?: boolean; // If set, list every token of the collection held by the wallet
     defaultPriceETH: string;
     defaultPrice: bigint;
     minPriceETH: string;
     minPrice: bigint;
+    hardMinPriceETH?: string; // Absolute lowest price, required when a price bound is relative
+    hardMinPrice?: bigint;
+    hardMaxPriceETH?: string; // Absolute highest price when a price bound is relative (default: no limit)
+    hardMaxPrice?: bigint;
+    priceExpressions?: {
+        default: PriceExpression;
+        min: PriceExpression;
+    }; // Set when a price bound is relative, re-evaluated every poll
+    quantity?: number; // Number of units to list per token (default: 1, only for ERC1155 tokens)
+    remainingQuantities: Record<string, number>; // Units left to list per token after partial fills
+    priceGapETH?: string; // Price gap between our staggered listings (default: 0, i.e. same price)
+    priceGap: bigint;
     shouldCompareToRest: boolean;
+    shouldTighten?: boolean; // Reprice our listing upwards when it is far below the next listing
+    tightenGapETH?: string; // Gap to the next listing that triggers repricing (default: 0)
+    tightenGap: bigint;
+    expiration?: Partial<ExpirationPolicy>; // Overrides of the global expiration policy
+    schedule?: EntrySchedule; // When the entry is polled
+    disabled?: boolean; // Set once none of the tokens are owned anymore
+};
+
+/**
+ * A lower price tier of an offer entry, maintained as its own offer below the top bid
+ */
+export type OfferTier = {
+    quantity: number; // Number of items of the tier
+    discountPercent: number; // Discount to the top bid, e.g. 5 for top bid −5%
+    minPriceETH?: string; // Lowest price of the tier (default: no limit)
+    minPrice?: bigint;
+    maxPriceETH?: string; // Highest price of the tier (default: the entry's max price)
+    maxPrice?: bigint;
+    priceDecimals?: number; // Decimal places for the tier's price (default: the entry's)
+    orderHash?: string; // Our current offer of the tier
+    exposure: bigint; // WETH committed to our offer of the tier
 };
 
 export type OfferCollection = {
@@ -19,13 +85,34 @@ export type OfferCollection = {
     defaultPrice: bigint;
     maxPriceETH: string;
     maxPrice: bigint;
+    hardMaxPriceETH?: string; // Absolute highest price, required when a price bound is relative
+    hardMaxPrice?: bigint;
+    hardMinPriceETH?: string; // Absolute lowest price when a price bound is relative (default: no limit)
+    hardMinPrice?: bigint;
+    priceExpressions?: {
+        default: PriceExpression;
+        max: PriceExpression;
+    }; // Set when a price bound is relative, re-evaluated every poll
     shouldCompareToRest: boolean;
+    shouldLower?: boolean; // Lower our top offer when it beats the next offer by too much
+    lowerAfterIncrements?: number; // Increments above the next offer that trigger lowering (default: 1)
     quantity?: number; // Number of items for collection/trait offers (default: 1)
+    targetQuantity?: number; // Total items to acquire before the entry is disabled (default: no target)
+    acquired: number; // Items acquired through our offers of this entry
     priceDecimals?: number; // Number of decimal places for price increments (default: 4, i.e. 0.0001 ETH)
+    budgetETH?: string; // Max WETH committed to all offers of this collection (default: no limit)
+    budget?: bigint;
+    exposure: bigint; // WETH committed to our active offers of this entry (price per item × remaining quantity)
+    reserved: bigint; // WETH held for offers of this entry being created
+    replacedBy?: OfferCollection; // Entry replacing this one after a reload, holding its reservations
     trait?: {
         traitType: string;
         value: string;
     }; // If set, it's a trait offer (cannot be set with tokenId)
+    tiers?: OfferTier[]; // Lower price tiers below our top offer (collection/trait offers only)
+    expiration?: Partial<ExpirationPolicy>; // Overrides of the global expiration policy
+    schedule?: EntrySchedule; // When the entry is polled
+    disabled?: boolean; // Set once the target quantity is acquired
 };
 
 export type OfferType = 'single' | 'collection' | 'trait';
@@ -45,3 +132,12 @@ export const inferOfferType = (c: OfferCollection): OfferType => {
     }
     return 'collection';
 };
+
+/**
+ * The entries in force, replaced as a whole when the configuration file is reloaded
+ * Loops read the arrays once per round, so a reload never changes a round in progress.
+ */
+export type ActiveCollections = {
+    listings: Collection[];
+    offers: OfferCollection[];
+};
@@ -0,0 +1,244 @@
+import fs from 'fs';
+
+import { logger } from '../utils/logger.js';
+import { ActiveCollections, Collection, OfferCollection, inferOfferType } from './types.js';
+import {
+    CollectionsConfig,
+    initializeCollections,
+    initializeOfferCollections,
+    readCollectionsConfig,
+} from './initializeCollections.js';
+
+const DEFAULT_RELOAD_INTERVAL_SECONDS = 5;
+
+/**
+ * An entry of the configuration file, as written and as initialized
+ */
+type KeyedEntry<T> = {
+    key: string;
+    raw: Record<string, unknown>;
+    entry: T;
+};
+
+/**
+ * Gets the key identifying a listing entry across reloads
+ * @param c The listing collection configuration
+ * @returns e.g. "ethereum:cryptopunks:1,2"
+ */
+const getListingKey = (c: Collection): string =>
+    `${c.chain}:${c.collectionSlug}:${c.autoDiscover ? 'auto' : c.tokenIds.join(',')}`;
+
+/**
+ * Gets the key identifying an offer entry across reloads
+ * @param c The offer collection configuration
+ * @returns e.g. "ethereum:cryptopunks:trait:Type=Alien"
+ */
+const getOfferKey = (c: OfferCollection): string => {
+    const offerType = inferOfferType(c);
+    const target =
+        offerType === 'single'
+            ? c.tokenId
+            : offerType === 'trait' && c.trait
+              ? `${c.trait.traitType}=${c.trait.value}`
+              : '';
+    const key = `${c.chain}:${c.collectionSlug}:${offerType}`;
+    return target ? `${key}:${target}` : key;
+};
+
+/**
+ * Pairs initialized entries with their key and raw configuration
+ * Entries sharing a key are told apart by their position.
+ * @param entries The initialized entries, in file order
+ * @param raws The raw entries, in file order
+ * @param getKey Gets the key of an entry
+ * @returns The keyed entries
+ */
+const keyEntries = <T>(
+    entries: T[],
+    raws: Record<string, unknown>[],
+    getKey: (entry: T) => string
+): KeyedEntry<T>[] => {
+    const counts = new Map<string, number>();
+    return entries.map((entry, i) => {
+        const key = getKey(entry);
+        const count = counts.get(key) || 0;
+        counts.set(key, count + 1);
+        return { key: count > 0 ? `${key}#${count + 1}` : key, raw: raws[i], entry };
+    });
+};
+
+/**
+ * Lists the fields that differ between two raw entries
+ * @param previous The previous raw entry
+ * @param next The new raw entry
+ * @returns The names of the changed fields
+ */
+const getChangedFields = (
+    previous: Record<string, unknown>,
+    next: Record<string, unknown>
+): string[] =>
+    [...new Set([...Object.keys(previous), ...Object.keys(next)])].filter(
+        (field) => JSON.stringify(previous[field]) !== JSON.stringify(next[field])
+    );
+
+/**
+ * Carries the runtime state of a listing entry over to its new configuration
+ * @param previous The entry being replaced
+ * @param next The entry replacing it
+ */
+const carryListingState = (previous: Collection, next: Collection) => {
+    next.remainingQuantities = previous.remainingQuantities;
+    next.disabled = previous.disabled;
+    if (next.autoDiscover) {
+        next.tokenIds = previous.tokenIds;
+        next.tokenAddress = next.tokenAddress || previous.tokenAddress;
+    }
+};
+
+/**
+ * Carries the runtime state of an offer entry over to its new configuration
+ * The entry is re-enabled if its new target quantity has not been acquired yet. WETH held for
+ * offers still being created moves to the new entry, where their reservations are released.
+ * @param previous The entry being replaced
+ * @param next The entry replacing it
+ */
+const carryOfferState = (previous: OfferCollection, next: OfferCollection) => {
+    next.acquired = previous.acquired;
+    next.exposure = previous.exposure;
+    next.reserved = previous.reserved;
+    previous.replacedBy = next;
+    next.disabled = next.targetQuantity !== undefined && next.acquired >= next.targetQuantity;
+    next.tiers?.forEach((tier, i) => {
+        const previousTier = previous.tiers?.[i];
+        if (previousTier) {
+            tier.orderHash = previousTier.orderHash;
+            tier.exposure = previousTier.exposure;
+        }
+    });
+};
+
+/**
+ * Merges the entries of a reload with the entries in force
+ * Unchanged entries are kept as is, changed entries inherit the runtime state of the entry they
+ * replace, and every difference is logged.
+ * @param kind Entry kind for logging
+ * @param previous The keyed entries in force
+ * @param next The keyed entries of the reload
+ * @param carryState Carries the runtime state of a replaced entry over
+ * @returns The merged entries and the entries that did not exist before
+ */
+const mergeEntries = <T>(
+    kind: string,
+    previous: KeyedEntry<T>[],
+    next: KeyedEntry<T>[],
+    carryState: (previous: T, next: T) => void
+): { merged: KeyedEntry<T>[]; added: T[]; changes: number } => {
+    const previousByKey = new Map(previous.map((e) => [e.key, e]));
+    const nextKeys = new Set(next.map((e) => e.key));
+    const merged: KeyedEntry<T>[] = [];
+    const added: T[] = [];
+    let changes = 0;
+
+    for (const e of next) {
+        const old = previousByKey.get(e.key);
+        if (!old) {
+            logger.info(`Added ${kind} entry ${e.key}`);
+            added.push(e.entry);
+            merged.push(e);
+            changes++;
+            continue;
+        }
+        const changedFields = getChangedFields(old.raw, e.raw);
+        if (changedFields.length === 0) {
+            merged.push(old);
+            continue;
+        }
+        logger.info(`Changed ${kind} entry ${e.key}: ${changedFields.join(', ')}`);
+        carryState(old.entry, e.entry);
+        merged.push(e);
+        changes++;
+    }
+
+    for (const e of previous) {
+        if (!nextKeys.has(e.key)) {
+            logger.info(`Removed ${kind} entry ${e.key}`);
+            changes++;
+        }
+    }
+
+    return { merged, added, changes };
+};
+
+/**
+ * Watches the configuration file and swaps the active entries whenever it changes
+ * A change is validated like at startup, and rejected as a whole if invalid so the last good
+ * configuration stays in force. Orders of removed entries are left as they are.
+ * @param collectionPath Path to the collections configuration file
+ * @param providers Record of RPC providers by chain
+ * @param active The entries in force, initialized from the same file
+ * @param onReload Called after each swap with the entries that did not exist before
+ * @param intervalSeconds How often the file is checked for changes
+ */
+export const watchCollections = (
+    collectionPath: string,
+    providers: Record<string, any>,
+    active: ActiveCollections,
+    onReload: (added: ActiveCollections) => Promise<void> | void,
+    intervalSeconds: number = DEFAULT_RELOAD_INTERVAL_SECONDS
+) => {
+    const initialRaw = readCollectionsConfig(collectionPath, providers);
+    let listings = keyEntries(active.listings, initialRaw.listings, getListingKey);
+    let offers = keyEntries(active.offers, initialRaw.offers, getOfferKey);
+
+    fs.watchFile(collectionPath, { interval: intervalSeconds * 1000 }, (curr, prev) => {
+        if (curr.mtimeMs === prev.mtimeMs) {
+            return;
+        }
+
+        logger.info(`Collections config ${collectionPath} changed. Reloading ...`);
+        let raw: CollectionsConfig;
+        let nextListings: Collection[];
+        let nextOffers: OfferCollection[];
+        try {
+            // Parse the file once, the raw entries tell which initialized entries changed
+            raw = readCollectionsConfig(collectionPath, providers);
+            nextListings = initializeCollections(raw);
+            nextOffers = initializeOfferCollections(raw);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            logger.error(
+                `Rejected invalid collections config ${collectionPath}: ${errorMessage}. Keeping the last good config ...`
+            );
+            return;
+        }
+
+        const listingMerge = mergeEntries(
+            'listing',
+            listings,
+            keyEntries(nextListings, raw.listings, getListingKey),
+            carryListingState
+        );
+        const offerMerge = mergeEntries(
+            'offer',
+            offers,
+            keyEntries(nextOffers, raw.offers, getOfferKey),
+            carryOfferState
+        );
+        if (listingMerge.changes + offerMerge.changes === 0) {
+            logger.info(`No entry changed in ${collectionPath}. Skipping...`);
+            return;
+        }
+
+        listings = listingMerge.merged;
+        offers = offerMerge.merged;
+        active.listings = listings.map((e) => e.entry);
+        active.offers = offers.map((e) => e.entry);
+        logger.info(
+            `Reloaded ${collectionPath}: ${active.listings.length} listing and ${active.offers.length} offer entries in force`
+        );
+
+        Promise.resolve(onReload({ listings: listingMerge.added, offers: offerMerge.added })).catch(
+            (err) => logger.error('Error applying reloaded collections config:', err)
+        );
+    });
+};
@@ -0,0 +1,94 @@
+import { ExpirationPolicy } from './types.js';
+
+// Longest lifetime of our orders, also how far back our active orders are looked up
+export const MAX_ORDER_DURATION_SECONDS = 6 * 30 * 24 * 60 * 60; // 6 months
+
+// Global policy, each entry can override any of its fields
+let defaults: ExpirationPolicy = {
+    durationSeconds: 5 * 30 * 24 * 60 * 60, // 5 months
+    minPriceDurationSeconds: 12 * 60 * 60, // 12 hours
+    inheritCompetitorExpiration: true,
+    minDurationSeconds: 15 * 60, // 15 minutes minimum to avoid OpenSea API issues
+};
+
+/**
+ * Validates an expiration policy
+ * @param policy The expiration policy
+ * @param name Description of the policy owner for error messages
+ */
+export const validateExpirationPolicy = (policy: ExpirationPolicy, name: string) => {
+    const durations: Record<string, number | undefined> = {
+        durationSeconds: policy.durationSeconds,
+        minPriceDurationSeconds: policy.minPriceDurationSeconds,
+        minDurationSeconds: policy.minDurationSeconds,
+        maxDurationSeconds: policy.maxDurationSeconds,
+    };
+    for (const [field, value] of Object.entries(durations)) {
+        if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+            throw new Error(`Expiration ${field} must be a positive integer for ${name}`);
+        }
+        if (value !== undefined && value > MAX_ORDER_DURATION_SECONDS) {
+            throw new Error(
+                `Expiration ${field} must be at most ${MAX_ORDER_DURATION_SECONDS} seconds (6 months) for ${name}`
+            );
+        }
+    }
+    if (typeof policy.inheritCompetitorExpiration !== 'boolean') {
+        throw new Error(`Expiration inheritCompetitorExpiration must be a boolean for ${name}`);
+    }
+    if (
+        policy.maxDurationSeconds !== undefined &&
+        policy.minDurationSeconds > policy.maxDurationSeconds
+    ) {
+        throw new Error(
+            `Expiration minDurationSeconds must be less than or equal to maxDurationSeconds for ${name}`
+        );
+    }
+};
+
+/**
+ * Sets the global expiration policy
+ * @param policy The expiration policy applied to entries without overrides
+ */
+export const initializeExpirationPolicy = (policy: ExpirationPolicy) => {
+    validateExpirationPolicy(policy, 'the global expiration policy');
+    defaults = policy;
+};
+
+/**
+ * Gets the expiration policy of an entry
+ * @param overrides The entry's "expiration" settings, if any
+ * @returns The global policy with the entry's overrides applied
+ */
+export const getExpirationPolicy = (overrides?: Partial<ExpirationPolicy>): ExpirationPolicy => ({
+    ...defaults,
+    ...overrides,
+});
+
+/**
+ * Derives the expiration time of a new order
+ * Orders expire with the order they compete with when the policy inherits it, otherwise after
+ * the default duration, or the min price duration for listings at the min price.
+ * The lifetime is always clamped between the min and max durations of the policy, and never
+ * exceeds MAX_ORDER_DURATION_SECONDS so our active orders can always be looked up.
+ * @param policy The expiration policy of the entry
+ * @param competitorExpirationTime The expiration time of the order we undercut or outbid, if any
+ * @param atMinPrice If true, the order is a listing at the min price
+ * @returns The expiration time in seconds (Unix timestamp)
+ */
+export const deriveExpirationTime = (
+    policy: ExpirationPolicy,
+    competitorExpirationTime?: number,
+    atMinPrice: boolean = false
+): number => {
+    const currentTime = Math.floor(Date.now() / 1000);
+
+    let duration = atMinPrice ? policy.minPriceDurationSeconds : policy.durationSeconds;
+    if (!atMinPrice && policy.inheritCompetitorExpiration && competitorExpirationTime) {
+        duration = competitorExpirationTime - currentTime;
+    }
+
+    duration = Math.max(duration, policy.minDurationSeconds);
+    duration = Math.min(duration, policy.maxDurationSeconds ?? MAX_ORDER_DURATION_SECONDS);
+    return currentTime + duration;
+};
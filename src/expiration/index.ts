@@ -0,0 +1,9 @@
+export { type ExpirationPolicy } from './types.js';
+export {
+    initializeExpirationPolicy,
+    validateExpirationPolicy,
+    getExpirationPolicy,
+    deriveExpirationTime,
+    MAX_ORDER_DURATION_SECONDS,
+} from './expirationPolicy.js';
+export { renewExpiringOrders } from './renewOrders.js';
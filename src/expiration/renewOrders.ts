@@ -0,0 +1,336 @@
+import { formatEther, Signer } from 'ethers';
+import { Listing, OpenSeaSDK } from 'opensea-js';
+
+import { logger } from '../utils/logger.js';
+import { Collection, OfferCollection, inferOfferType } from '../collections/types.js';
+import {
+    getAllListings,
+    createListing,
+    getListingQuantity,
+    getListingPricePerUnit,
+} from '../listings/index.js';
+import { isListingInETH, isOfferInETH } from '../offers/paymentTokens.js';
+import { getOffersForCollection } from '../offers/getOffersForCollection.js';
+import { createOffer } from '../offers/createOffer.js';
+import { createCollectionOffer } from '../offers/createCollectionOffer.js';
+import { createTraitOffer } from '../offers/createTraitOffer.js';
+import { cancelOffer } from '../offers/cancelOffer.js';
+import { getOfferPricePerItem, getOfferRemainingQuantity } from '../offers/utils.js';
+import {
+    OfferBudget,
+    fitOfferToBudget,
+    releaseOfferExposure,
+    reserveOfferBudget,
+} from '../offers/offerBudget.js';
+import { resolveListingPriceBounds, resolveOfferPriceBounds } from '../collections/priceBounds.js';
+import { guardListingPrice, guardOfferPrice } from '../collections/crossGuard.js';
+import { ListingContext, preflightToken } from '../collections/monitorCollection.js';
+import { isPaused } from '../killswitch/index.js';
+import { deriveExpirationTime, getExpirationPolicy } from './expirationPolicy.js';
+
+/**
+ * Formats an expiration time for logging
+ * @param endTime The expiration time in seconds (Unix timestamp)
+ * @returns The expiration time as an ISO string
+ */
+const formatEndTime = (endTime: number): string => new Date(endTime * 1000).toISOString();
+
+/**
+ * Relists the listings of an entry that expire within the renewal window, at the same price
+ * The old listing is left to expire since listings can only be canceled onchain. Listings below
+ * the current min price or crossing our offers are not renewed, the monitor relists the token.
+ * Like any listing, a renewal runs the onchain pre-flight checks first: a token no longer owned
+ * is dropped from the entry and a reduced balance caps the renewed quantity.
+ * @param c The listing collection configuration
+ * @param listings Our listings of the entry's collection
+ * @param ctx The listing context
+ * @param renewBefore Listings expiring before this timestamp are renewed
+ */
+const renewListings = async (
+    c: Collection,
+    listings: Listing[],
+    ctx: ListingContext,
+    renewBefore: number
+) => {
+    const { seaport, owner } = ctx;
+    const policy = getExpirationPolicy(c.expiration);
+    for (const listing of listings) {
+        const parameters = listing.protocol_data.parameters;
+        const tokenId = parameters.offer[0]?.identifierOrCriteria;
+        const endTime = Number(parameters.endTime);
+        if (!c.tokenIds.includes(tokenId) || endTime > renewBefore) {
+            continue;
+        }
+        if (!isListingInETH(listing)) {
+            continue;
+        }
+
+        // A listing renewed in a previous round stays listed until it lapses
+        const renewed = listings.some(
+            (l) =>
+                l.protocol_data.parameters.offer[0]?.identifierOrCriteria === tokenId &&
+                Number(l.protocol_data.parameters.endTime) > renewBefore
+        );
+        if (renewed) {
+            continue;
+        }
+
+        const price = getListingPricePerUnit(listing);
+        if (price < c.minPrice) {
+            logger.info(
+                `Our listing for ${c.collectionSlug} (tokenId=${tokenId}) at ${formatEther(price)} ETH is below the min price of ${formatEther(c.minPrice)} ETH. Letting it expire ...`
+            );
+            continue;
+        }
+        if (!(await guardListingPrice(c, tokenId, price, seaport, owner))) {
+            continue;
+        }
+
+        const quantity = await preflightToken(c, tokenId, getListingQuantity(listing), ctx);
+        if (quantity === 0) {
+            continue;
+        }
+
+        logger.info(
+            `Our listing for ${c.collectionSlug} (tokenId=${tokenId}) at ${formatEther(price)} ETH expires at ${formatEndTime(endTime)}. Renewing ...`
+        );
+        await createListing(
+            seaport,
+            c.collectionSlug,
+            c.tokenAddress,
+            tokenId,
+            price,
+            deriveExpirationTime(policy, undefined, price <= c.minPrice),
+            owner,
+            quantity,
+            ctx.dryRun
+        );
+    }
+};
+
+/**
+ * Creates the offer replacing an expiring offer of an entry
+ * @param c The offer collection configuration
+ * @param seaport The OpenSea SDK instance
+ * @param owner The wallet owner address
+ * @param price The price per item
+ * @param quantity The quantity
+ * @param expirationTime The expiration time in seconds (Unix timestamp)
+ * @param paymentTokenAddress The payment token address
+ * @param dryRun If true, skip actual offer creation
+ * @returns The order hash of the new offer, if created
+ */
+const recreateOffer = async (
+    c: OfferCollection,
+    seaport: OpenSeaSDK,
+    owner: string,
+    price: bigint,
+    quantity: number,
+    expirationTime: number,
+    paymentTokenAddress: string,
+    dryRun: boolean
+): Promise<string | undefined> => {
+    const offerType = inferOfferType(c);
+    if (offerType === 'single' && c.tokenId) {
+        const created = await createOffer(
+            seaport,
+            c.tokenAddress,
+            c.tokenId,
+            price,
+            expirationTime,
+            owner,
+            paymentTokenAddress,
+            dryRun
+        );
+        return created?.orderHash ?? undefined;
+    }
+    if (offerType === 'trait' && c.trait) {
+        const created = await createTraitOffer(
+            seaport,
+            c.collectionSlug,
+            c.trait.traitType,
+            c.trait.value,
+            price * BigInt(quantity),
+            expirationTime,
+            owner,
+            quantity,
+            paymentTokenAddress,
+            dryRun
+        );
+        return created?.order_hash;
+    }
+    const created = await createCollectionOffer(
+        seaport,
+        c.collectionSlug,
+        price * BigInt(quantity),
+        expirationTime,
+        owner,
+        quantity,
+        paymentTokenAddress,
+        dryRun
+    );
+    return created?.order_hash;
+};
+
+/**
+ * Recreates the offers of an entry that expire within the renewal window, at the same price
+ * The new offer is created before the old one is canceled so the bid never drops out. Offers
+ * above the current max price, crossing our listings or no longer fitting the budget are left to
+ * expire, the monitor bids again.
+ * @param c The offer collection configuration
+ * @param seaport The OpenSea SDK instance
+ * @param owner The wallet owner address
+ * @param renewBefore Offers expiring before this timestamp are renewed
+ * @param budget Optional WETH budget of the chain
+ * @param dryRun If true, skip actual offer creation and cancellation
+ */
+const renewOffers = async (
+    c: OfferCollection,
+    seaport: OpenSeaSDK,
+    owner: string,
+    renewBefore: number,
+    budget: OfferBudget | undefined,
+    dryRun: boolean
+) => {
+    const offerType = inferOfferType(c);
+    const policy = getExpirationPolicy(c.expiration);
+    for (const offer of await getOffersForCollection(c, seaport, owner)) {
+        const parameters = offer.protocol_data.parameters;
+        const endTime = Number(parameters.endTime);
+        if (endTime > renewBefore || !isOfferInETH(offer)) {
+            continue;
+        }
+
+        const tier = c.tiers?.find((t) => t.orderHash === offer.order_hash);
+        const logPrefix = `${offerType} offer for ${c.collectionSlug}`;
+        const price = getOfferPricePerItem(offer);
+        let quantity = getOfferRemainingQuantity(offer);
+        const maxPrice = tier?.maxPrice ?? c.maxPrice;
+        if (price > maxPrice || (tier?.minPrice !== undefined && price < tier.minPrice)) {
+            logger.info(
+                `Our ${logPrefix} at ${formatEther(price)} WETH per item is outside its current price bounds. Letting it expire ...`
+            );
+            continue;
+        }
+        if ((await guardOfferPrice(c, price, seaport, owner)) !== price) {
+            continue;
+        }
+
+        let releaseBudget = () => {};
+        if (budget) {
+            quantity = fitOfferToBudget(c, price, quantity, budget, logPrefix);
+            if (quantity === 0) {
+                continue;
+            }
+            releaseBudget = reserveOfferBudget(c, price * BigInt(quantity));
+        }
+
+        const paymentTokenAddress = parameters.offer[0].token;
+        const expirationTime = deriveExpirationTime(policy);
+        logger.info(
+            `Our ${logPrefix} at ${formatEther(price)} WETH per item expires at ${formatEndTime(endTime)}. Renewing ...`
+        );
+
+        let orderHash: string | undefined;
+        try {
+            orderHash = await recreateOffer(
+                c,
+                seaport,
+                owner,
+                price,
+                quantity,
+                expirationTime,
+                paymentTokenAddress,
+                dryRun
+            );
+            if (orderHash) {
+                // Keep tracking the tier the renewed offer belongs to
+                if (tier) {
+                    tier.orderHash = orderHash;
+                }
+                (tier ?? c).exposure += price * BigInt(quantity);
+            }
+        } finally {
+            releaseBudget();
+        }
+        await cancelOffer(seaport, c.collectionSlug, offer, dryRun);
+        if (!dryRun) {
+            releaseOfferExposure(offer, c, tier);
+        }
+    }
+};
+
+/**
+ * Renews our listings and offers shortly before they expire, as long as their entry still
+ * wants them: the entry is enabled, not paused by the kill switch, and still tracks the token
+ * Orders are renewed at their current price with a fresh expiration time from the entry's policy,
+ * as long as that price is still within the entry's current bounds.
+ * @param collections Array of listing collection configurations
+ * @param offerCollections Array of offer collection configurations
+ * @param openSeaClients Record of OpenSea SDK instances by chain
+ * @param signers Record of wallets by chain, used for the listing pre-flight checks
+ * @param offerBudgets Record of offer budgets by chain
+ * @param owner The wallet owner address
+ * @param renewalWindowSeconds Orders expiring within this window are renewed
+ * @param dryRun If true, skip actual order creation and cancellation
+ * @param autoApprove If true, approve the OpenSea conduit when a pre-flight check finds it missing
+ */
+export const renewExpiringOrders = async (
+    collections: Collection[],
+    offerCollections: OfferCollection[],
+    openSeaClients: Record<string, OpenSeaSDK>,
+    signers: Record<string, Signer>,
+    offerBudgets: Record<string, OfferBudget>,
+    owner: string,
+    renewalWindowSeconds: number,
+    dryRun: boolean = false,
+    autoApprove: boolean = false
+): Promise<void> => {
+    const renewBefore = Math.floor(Date.now() / 1000) + renewalWindowSeconds;
+
+    // Entries of the same collection share our listings
+    const listingsBySlug = new Map<string, Listing[]>();
+    for (const c of collections) {
+        if (c.disabled || isPaused(c.chain, c.collectionSlug) || c.tokenIds.length === 0) {
+            continue;
+        }
+        try {
+            const seaport = openSeaClients[c.chain];
+            if (!(await resolveListingPriceBounds(c, seaport, owner))) {
+                continue;
+            }
+            const key = `${c.chain}:${c.collectionSlug}`;
+            if (!listingsBySlug.has(key)) {
+                listingsBySlug.set(
+                    key,
+                    await getAllListings(seaport, c.collectionSlug, undefined, owner)
+                );
+            }
+            const ctx: ListingContext = {
+                seaport,
+                signer: signers[c.chain],
+                owner,
+                dryRun,
+                autoApprove,
+            };
+            await renewListings(c, listingsBySlug.get(key)!, ctx, renewBefore);
+        } catch (err) {
+            logger.error(`Error renewing listings for ${c.collectionSlug}:`, err);
+        }
+    }
+
+    for (const c of offerCollections) {
+        if (c.disabled || isPaused(c.chain, c.collectionSlug)) {
+            continue;
+        }
+        try {
+            const seaport = openSeaClients[c.chain];
+            if (!(await resolveOfferPriceBounds(c, seaport, owner))) {
+                continue;
+            }
+            await renewOffers(c, seaport, owner, renewBefore, offerBudgets[c.chain], dryRun);
+        } catch (err) {
+            logger.error(`Error renewing offers for ${c.collectionSlug}:`, err);
+        }
+    }
+};
@@ -0,0 +1,10 @@
+/**
+ * How long our orders live, set globally and overridden per entry with "expiration"
+ */
+export type ExpirationPolicy = {
+    durationSeconds: number; // Lifetime of new orders (default: 5 months)
+    minPriceDurationSeconds: number; // Lifetime of listings at the min price (default: 12 hours)
+    inheritCompetitorExpiration: boolean; // Expire with the order we undercut or outbid (default: true)
+    minDurationSeconds: number; // Shortest lifetime of any order (default: 15 minutes)
+    maxDurationSeconds?: number; // Longest lifetime of any order (default: no limit)
+};
@@ -1,15 +1,41 @@
 import dotenv from 'dotenv';
-import { Wallet } from 'ethers';
+import { parseEther, parseUnits, Signer, Wallet } from 'ethers';
 
 import { logger } from './utils/logger.js';
 import { sleep } from './utils/sleep.js';
+import { setCounterparties } from './utils/counterparties.js';
 import {
+    readCollectionsConfig,
     initializeCollections,
     initializeOfferCollections,
     monitorCollection,
+    discoverHoldings,
+    initializeCrossGuard,
+    watchCollections,
+    ActiveCollections,
+    Collection,
+    OfferCollection,
 } from './collections/index.js';
-import { monitorOffer, cancelRedundantOffers } from './offers/index.js';
+import {
+    monitorOffer,
+    cancelRedundantOffers,
+    refreshOfferBudgets,
+    reconcileOffers,
+    trackOfferFills,
+    loadOfferFills,
+    setFillsFilePath,
+    initializeOfferValidity,
+    OfferBudget,
+} from './offers/index.js';
+import { initializeListingValidity } from './listings/index.js';
 import { initializeClients } from './networks/index.js';
+import { initializePriceSources } from './prices/index.js';
+import { initializeTokenRegistry } from './tokens/index.js';
+import { manageTreasury, TreasuryConfig } from './treasury/index.js';
+import { describeScope, getPausedScopes, isPaused, setPauseFilePath } from './killswitch/index.js';
+import { initializeExpirationPolicy, renewExpiringOrders } from './expiration/index.js';
+import { runScheduler, ScheduledJob } from './scheduler/index.js';
+import { initializeOrderBook } from './orderbook/index.js';
 
 dotenv.config();
 
@@ -25,7 +51,33 @@ const OFFERS_POLLING_INTERVAL_SECONDS = parseInt(
 const REDUNDANT_OFFERS_POLLING_INTERVAL_SECONDS = parseInt(
     process.env.REDUNDANT_OFFERS_POLLING_INTERVAL_SECONDS || '60'
 );
+const HOLDINGS_REFRESH_INTERVAL_SECONDS = parseInt(
+    process.env.HOLDINGS_REFRESH_INTERVAL_SECONDS || '3600'
+);
+const OFFER_BUDGET_REFRESH_INTERVAL_SECONDS = parseInt(
+    process.env.OFFER_BUDGET_REFRESH_INTERVAL_SECONDS || '300'
+);
+const OFFER_FILLS_POLLING_INTERVAL_SECONDS = parseInt(
+    process.env.OFFER_FILLS_POLLING_INTERVAL_SECONDS || '300'
+);
+// File the sales made through our offers are recorded to
+const FILLS_PATH = process.env.FILLS_PATH || 'data/fills.json';
+// Optional max WETH committed to all offers per chain, e.g. "ethereum:2,base:0.5"
+const OFFER_BUDGETS = process.env.OFFER_BUDGETS;
+// Disable the ETH wrapping and WETH approval routine by default, enable only if explicitly set to 'true' or '1'
+const ENABLE_TREASURY =
+    process.env.ENABLE_TREASURY === 'true' || process.env.ENABLE_TREASURY === '1';
+// Target WETH balance per chain, e.g. "ethereum:1,base:0.2"
+const TREASURY_TARGETS = process.env.TREASURY_TARGETS;
+const TREASURY_ETH_RESERVE = process.env.TREASURY_ETH_RESERVE || '0.05';
+const TREASURY_MAX_WRAP_ETH = process.env.TREASURY_MAX_WRAP_ETH || '0.5';
+const TREASURY_MAX_GAS_PRICE_GWEI = process.env.TREASURY_MAX_GAS_PRICE_GWEI || '30';
+const TREASURY_INTERVAL_SECONDS = parseInt(process.env.TREASURY_INTERVAL_SECONDS || '600');
 const PRIVATE_KEY = process.env.PRIVATE_KEY!;
+// Optional sources used to convert competing orders in other currencies to ETH
+const CHAINLINK_FEEDS = process.env.CHAINLINK_FEEDS;
+const CURRENCY_RATES_PATH = process.env.CURRENCY_RATES_PATH;
+const CURRENCY_RATES = process.env.CURRENCY_RATES;
 // Default to dry-run mode for safety unless explicitly disabled
 // Only disable dry-run if explicitly set to 'false' or '0'
 const DRY_RUN = process.env.DRY_RUN !== 'false' && process.env.DRY_RUN !== '0';
@@ -33,102 +85,494 @@ const DRY_RUN = process.env.DRY_RUN !== 'false' && process.env.DRY_RUN !== '0';
 const ENABLE_OFFER_CANCELLATION =
     process.env.ENABLE_OFFER_CANCELLATION === 'true' ||
     process.env.ENABLE_OFFER_CANCELLATION === '1';
+// Disable cancellation of offers not matching the config by default, enable only if explicitly set to 'true' or '1'
+const ENABLE_OFFER_RECONCILIATION =
+    process.env.ENABLE_OFFER_RECONCILIATION === 'true' ||
+    process.env.ENABLE_OFFER_RECONCILIATION === '1';
+const OFFER_RECONCILIATION_INTERVAL_SECONDS = parseInt(
+    process.env.OFFER_RECONCILIATION_INTERVAL_SECONDS || '3600'
+);
+// Order hashes and collection slugs of offers that reconciliation must preserve
+const OFFER_RECONCILIATION_ALLOWLIST = (process.env.OFFER_RECONCILIATION_ALLOWLIST || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+// File the kill switch persists paused scopes to, shared with the CLI
+const PAUSE_FILE_PATH = process.env.PAUSE_FILE_PATH || 'data/paused.json';
+// Competing offers expiring within this window are not outbid
+const OFFER_MIN_REMAINING_SECONDS = parseInt(process.env.OFFER_MIN_REMAINING_SECONDS || '0');
+// Disable checking the funds of competing bidders by default, enable only if explicitly set to 'true' or '1'
+const VERIFY_OFFER_FUNDING =
+    process.env.VERIFY_OFFER_FUNDING === 'true' || process.env.VERIFY_OFFER_FUNDING === '1';
+const OFFER_FUNDING_CACHE_SECONDS = parseInt(process.env.OFFER_FUNDING_CACHE_SECONDS || '300');
+// Disable checking the ownership and approvals of competing listers by default, enable only if explicitly set to 'true' or '1'
+const VERIFY_LISTING_FILLABILITY =
+    process.env.VERIFY_LISTING_FILLABILITY === 'true' ||
+    process.env.VERIFY_LISTING_FILLABILITY === '1';
+const LISTING_FILLABILITY_CACHE_SECONDS = parseInt(
+    process.env.LISTING_FILLABILITY_CACHE_SECONDS || '300'
+);
+// Our other wallets, whose orders are never outbid or undercut
+const FRIENDLY_ADDRESSES = (process.env.FRIENDLY_ADDRESSES || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+// Known wash or spoof traders, whose orders are never competed with
+const IGNORED_ADDRESSES = (process.env.IGNORED_ADDRESSES || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+// Reload the collections config when it changes unless explicitly set to 'false' or '0'
+const ENABLE_COLLECTION_RELOAD =
+    process.env.ENABLE_COLLECTION_RELOAD !== 'false' &&
+    process.env.ENABLE_COLLECTION_RELOAD !== '0';
+const COLLECTION_RELOAD_INTERVAL_SECONDS = parseInt(
+    process.env.COLLECTION_RELOAD_INTERVAL_SECONDS || '5'
+);
+// Min gap kept between our offers and our own listings of the same collection
+const CROSS_GUARD_MARGIN_ETH = process.env.CROSS_GUARD_MARGIN_ETH || '0';
+// Lifetimes of our orders, each entry can override them with "expiration"
+const ORDER_DURATION_SECONDS = parseInt(process.env.ORDER_DURATION_SECONDS || '12960000'); // 5 months
+const MIN_PRICE_LISTING_DURATION_SECONDS = parseInt(
+    process.env.MIN_PRICE_LISTING_DURATION_SECONDS || '43200'
+); // 12 hours
+// Expire with the order we undercut or outbid unless explicitly set to 'false' or '0'
+const INHERIT_COMPETITOR_EXPIRATION =
+    process.env.INHERIT_COMPETITOR_EXPIRATION !== 'false' &&
+    process.env.INHERIT_COMPETITOR_EXPIRATION !== '0';
+const ORDER_MIN_DURATION_SECONDS = parseInt(process.env.ORDER_MIN_DURATION_SECONDS || '900');
+const ORDER_MAX_DURATION_SECONDS = process.env.ORDER_MAX_DURATION_SECONDS
+    ? parseInt(process.env.ORDER_MAX_DURATION_SECONDS)
+    : undefined;
+// Disable renewing our orders before they expire by default, enable only if explicitly set to 'true' or '1'
+const ENABLE_ORDER_RENEWAL =
+    process.env.ENABLE_ORDER_RENEWAL === 'true' || process.env.ENABLE_ORDER_RENEWAL === '1';
+const ORDER_RENEWAL_INTERVAL_SECONDS = parseInt(
+    process.env.ORDER_RENEWAL_INTERVAL_SECONDS || '600'
+);
+// Orders expiring within this window are renewed, keep it above the renewal interval
+const ORDER_RENEWAL_WINDOW_SECONDS = parseInt(process.env.ORDER_RENEWAL_WINDOW_SECONDS || '3600');
+// Bound the entries polled at the same time on each chain (default 3)
+const MAX_CONCURRENT_POLLS_PER_CHAIN = parseInt(process.env.MAX_CONCURRENT_POLLS_PER_CHAIN || '3');
+const POLLING_JITTER_SECONDS = parseInt(process.env.POLLING_JITTER_SECONDS || '0');
+const POLLING_MAX_BACKOFF_SECONDS = parseInt(process.env.POLLING_MAX_BACKOFF_SECONDS || '900');
+// Reuse the orders of a collection across lookups for this long (default 5, 0 to disable)
+const ORDER_BOOK_TTL_SECONDS = parseInt(process.env.ORDER_BOOK_TTL_SECONDS || '5');
+// Disable automatic conduit approval by default, enable only if explicitly set to 'true' or '1'
+const ENABLE_AUTO_APPROVAL =
+    process.env.ENABLE_AUTO_APPROVAL === 'true' || process.env.ENABLE_AUTO_APPROVAL === '1';
 
-const monitorListings = async (
-    collections: ReturnType<typeof initializeCollections>,
+const pollEntries = async (
+    active: ActiveCollections,
     openSeaClients: Record<string, any>,
+    signers: Record<string, Signer>,
+    chainIds: Record<string, number>,
+    offerBudgets: Record<string, OfferBudget>,
     owner: string,
     dryRun: boolean
 ) => {
-    while (true) {
-        for (const collection of collections) {
-            try {
-                await monitorCollection(
-                    collection,
-                    openSeaClients[collection.chain],
-                    owner,
-                    dryRun
+    const listingsJob: ScheduledJob<Collection> = {
+        name: 'Listings',
+        intervalSeconds: LISTINGS_POLLING_INTERVAL_SECONDS,
+        getEntries: () => active.listings,
+        describe: (collection) => `listing collection ${collection.collectionSlug}`,
+        poll: async (collection) => {
+            if (isPaused(collection.chain, collection.collectionSlug)) {
+                logger.debug(
+                    `Listings for ${collection.collectionSlug} on ${collection.chain} are paused by the kill switch. Skipping...`
                 );
-            } catch (err) {
-                logger.error(
-                    `Error monitoring listing collection ${collection.collectionSlug}:`,
-                    err
+                return;
+            }
+            await monitorCollection(
+                collection,
+                openSeaClients[collection.chain],
+                signers[collection.chain],
+                owner,
+                dryRun,
+                ENABLE_AUTO_APPROVAL
+            );
+        },
+    };
+    const offersJob: ScheduledJob<OfferCollection> = {
+        name: 'Offers',
+        intervalSeconds: OFFERS_POLLING_INTERVAL_SECONDS,
+        getEntries: () => active.offers,
+        describe: (offerCollection) => `offer collection ${offerCollection.collectionSlug}`,
+        poll: async (offerCollection) => {
+            if (isPaused(offerCollection.chain, offerCollection.collectionSlug)) {
+                logger.debug(
+                    `Offers for ${offerCollection.collectionSlug} on ${offerCollection.chain} are paused by the kill switch. Skipping...`
                 );
+                return;
             }
+            await monitorOffer(
+                offerCollection,
+                openSeaClients[offerCollection.chain],
+                chainIds[offerCollection.chain],
+                owner,
+                dryRun,
+                offerBudgets[offerCollection.chain]
+            );
+        },
+    };
+
+    await runScheduler([listingsJob, offersJob], {
+        maxConcurrencyPerChain: MAX_CONCURRENT_POLLS_PER_CHAIN,
+        jitterSeconds: POLLING_JITTER_SECONDS,
+        maxBackoffSeconds: POLLING_MAX_BACKOFF_SECONDS,
+    });
+};
+
+const cancelStaleOffers = async (
+    active: ActiveCollections,
+    openSeaClients: Record<string, any>,
+    owner: string,
+    dryRun: boolean
+) => {
+    while (true) {
+        try {
+            await cancelRedundantOffers(active.offers, openSeaClients, owner, dryRun);
+        } catch (err) {
+            logger.error('Error canceling old offers:', err);
         }
-        logger.debug('[Listings] Waiting for next poll ...');
-        await sleep(LISTINGS_POLLING_INTERVAL_SECONDS);
+        logger.debug('[Offer Cancellation] Waiting for next poll ...');
+        await sleep(REDUNDANT_OFFERS_POLLING_INTERVAL_SECONDS);
     }
 };
 
-const monitorOffers = async (
-    offerCollections: ReturnType<typeof initializeOfferCollections>,
+const reconcileStaleOffers = async (
+    active: ActiveCollections,
     openSeaClients: Record<string, any>,
-    chainIds: Record<string, number>,
     owner: string,
     dryRun: boolean
 ) => {
     while (true) {
-        for (const offerCollection of offerCollections) {
-            try {
-                await monitorOffer(
-                    offerCollection,
-                    openSeaClients[offerCollection.chain],
-                    chainIds[offerCollection.chain],
-                    owner,
-                    dryRun
-                );
-            } catch (err) {
-                logger.error(
-                    `Error monitoring offer collection ${offerCollection.collectionSlug}:`,
-                    err
-                );
-            }
+        try {
+            await reconcileOffers(
+                active.offers,
+                openSeaClients,
+                owner,
+                OFFER_RECONCILIATION_ALLOWLIST,
+                dryRun
+            );
+        } catch (err) {
+            logger.error('Error reconciling offers:', err);
         }
-        logger.debug('[Offers] Waiting for next poll ...');
-        await sleep(OFFERS_POLLING_INTERVAL_SECONDS);
+        logger.debug('[Offer Reconciliation] Waiting for next poll ...');
+        await sleep(OFFER_RECONCILIATION_INTERVAL_SECONDS);
     }
 };
 
-const cancelStaleOffers = async (
-    offerCollections: ReturnType<typeof initializeOfferCollections>,
+const trackFills = async (
+    active: ActiveCollections,
     openSeaClients: Record<string, any>,
     owner: string,
     dryRun: boolean
 ) => {
     while (true) {
+        logger.debug('[Offer Fills] Waiting for next poll ...');
+        await sleep(OFFER_FILLS_POLLING_INTERVAL_SECONDS);
+        if (active.offers.length === 0) {
+            continue;
+        }
         try {
-            await cancelRedundantOffers(offerCollections, openSeaClients, owner, dryRun);
+            await trackOfferFills(active.offers, openSeaClients, owner, dryRun);
         } catch (err) {
-            logger.error('Error canceling old offers:', err);
+            logger.error('Error tracking offer fills:', err);
+        }
+    }
+};
+
+const renewOrders = async (
+    active: ActiveCollections,
+    openSeaClients: Record<string, any>,
+    signers: Record<string, Signer>,
+    offerBudgets: Record<string, OfferBudget>,
+    owner: string,
+    dryRun: boolean
+) => {
+    while (true) {
+        try {
+            await renewExpiringOrders(
+                active.listings,
+                active.offers,
+                openSeaClients,
+                signers,
+                offerBudgets,
+                owner,
+                ORDER_RENEWAL_WINDOW_SECONDS,
+                dryRun,
+                ENABLE_AUTO_APPROVAL
+            );
+        } catch (err) {
+            logger.error('Error renewing expiring orders:', err);
+        }
+        logger.debug('[Order Renewal] Waiting for next poll ...');
+        await sleep(ORDER_RENEWAL_INTERVAL_SECONDS);
+    }
+};
+
+const refreshHoldings = async (
+    active: ActiveCollections,
+    openSeaClients: Record<string, any>,
+    owner: string
+) => {
+    while (true) {
+        logger.debug('[Holdings] Waiting for next refresh ...');
+        await sleep(HOLDINGS_REFRESH_INTERVAL_SECONDS);
+        try {
+            await discoverHoldings(active.listings, openSeaClients, owner);
+        } catch (err) {
+            logger.error('Error refreshing wallet holdings:', err);
         }
-        logger.debug('[Offer Cancellation] Waiting for next poll ...');
-        await sleep(REDUNDANT_OFFERS_POLLING_INTERVAL_SECONDS);
     }
 };
 
+const refreshBudgets = async (
+    active: ActiveCollections,
+    openSeaClients: Record<string, any>,
+    signers: Record<string, Signer>,
+    chainIds: Record<string, number>,
+    offerBudgets: Record<string, OfferBudget>,
+    limits: Record<string, bigint>,
+    owner: string
+) => {
+    while (true) {
+        logger.debug('[Budgets] Waiting for next refresh ...');
+        await sleep(OFFER_BUDGET_REFRESH_INTERVAL_SECONDS);
+        try {
+            Object.assign(
+                offerBudgets,
+                await refreshOfferBudgets(
+                    active.offers,
+                    openSeaClients,
+                    signers,
+                    chainIds,
+                    owner,
+                    limits
+                )
+            );
+        } catch (err) {
+            logger.error('Error refreshing offer budgets:', err);
+        }
+    }
+};
+
+const runTreasury = async (
+    targets: Record<string, bigint>,
+    signers: Record<string, Signer>,
+    chainIds: Record<string, number>,
+    dryRun: boolean
+) => {
+    for (const [chain, targetWETH] of Object.entries(targets)) {
+        const config: TreasuryConfig = {
+            targetWETH,
+            reserveETH: parseEther(TREASURY_ETH_RESERVE),
+            maxWrapETH: parseEther(TREASURY_MAX_WRAP_ETH),
+            maxFeePerGas: parseUnits(TREASURY_MAX_GAS_PRICE_GWEI, 'gwei'),
+        };
+        try {
+            await manageTreasury(chain, chainIds[chain], signers[chain], config, dryRun);
+        } catch (err) {
+            logger.error(`Error managing treasury on ${chain}:`, err);
+        }
+    }
+};
+
+const manageTreasuries = async (
+    targets: Record<string, bigint>,
+    signers: Record<string, Signer>,
+    chainIds: Record<string, number>,
+    dryRun: boolean
+) => {
+    while (true) {
+        logger.debug('[Treasury] Waiting for next run ...');
+        await sleep(TREASURY_INTERVAL_SECONDS);
+        await runTreasury(targets, signers, chainIds, dryRun);
+    }
+};
+
+const parseChainAmounts = (name: string, value?: string): Record<string, bigint> => {
+    const amounts: Record<string, bigint> = {};
+    for (const entry of value ? value.split(',') : []) {
+        const [chain, amount] = entry.trim().split(':');
+        if (!chain || !amount || parseEther(amount) <= 0) {
+            throw new Error(`Invalid ${name} "${entry}", expected chain:amountETH`);
+        }
+        amounts[chain] = parseEther(amount);
+    }
+    return amounts;
+};
+
 const main = async () => {
     logger.info(
         `Dry-run mode: ${DRY_RUN ? 'ENABLED ⚠️  (No state-changing operations will be executed)' : 'DISABLED (All operations will be executed)'}`
     );
     logger.info(`Offer cancellation: ${ENABLE_OFFER_CANCELLATION ? 'ENABLED' : 'DISABLED'}`);
+    logger.info(`Offer reconciliation: ${ENABLE_OFFER_RECONCILIATION ? 'ENABLED' : 'DISABLED'}`);
+    logger.info(`Auto approval: ${ENABLE_AUTO_APPROVAL ? 'ENABLED' : 'DISABLED'}`);
+    logger.info(`Order renewal: ${ENABLE_ORDER_RENEWAL ? 'ENABLED' : 'DISABLED'}`);
+    logger.info(`Collections config reload: ${ENABLE_COLLECTION_RELOAD ? 'ENABLED' : 'DISABLED'}`);
+    logger.info(`Treasury: ${ENABLE_TREASURY ? 'ENABLED' : 'DISABLED'}`);
+    logger.info(`Concurrent polls per chain: ${MAX_CONCURRENT_POLLS_PER_CHAIN}`);
+    logger.info(`Offer funding verification: ${VERIFY_OFFER_FUNDING ? 'ENABLED' : 'DISABLED'}`);
+    logger.info(
+        `Listing fillability verification: ${VERIFY_LISTING_FILLABILITY ? 'ENABLED' : 'DISABLED'}`
+    );
+
+    setPauseFilePath(PAUSE_FILE_PATH);
+    for (const scope of getPausedScopes()) {
+        logger.warn(
+            `New orders are paused for ${describeScope(scope)} since ${scope.pausedAt}. Run the resume command to allow them again.`
+        );
+    }
 
     const owner = new Wallet(PRIVATE_KEY);
-    const { providers, openSeaClients, chainIds } = await initializeClients(
+    setCounterparties(FRIENDLY_ADDRESSES, IGNORED_ADDRESSES);
+    if (FRIENDLY_ADDRESSES.length > 0 || IGNORED_ADDRESSES.length > 0) {
+        logger.info(
+            `Friendly addresses: ${FRIENDLY_ADDRESSES.length}, ignored addresses: ${IGNORED_ADDRESSES.length}`
+        );
+    }
+    const { providers, openSeaClients, chainIds, signers } = await initializeClients(
         RPC_ENDPOINTS,
         PRIVATE_KEY,
         OPENSEA_API_KEY
     );
-    const collections = initializeCollections(COLLECTION_PATH, providers);
-    const offerCollections = initializeOfferCollections(COLLECTION_PATH, providers);
+    initializeTokenRegistry(providers, chainIds);
+    initializeOrderBook({ ttlSeconds: ORDER_BOOK_TTL_SECONDS });
+    initializeOfferValidity(providers, {
+        minRemainingSeconds: OFFER_MIN_REMAINING_SECONDS,
+        verifyFunding: VERIFY_OFFER_FUNDING,
+        fundingCacheSeconds: OFFER_FUNDING_CACHE_SECONDS,
+    });
+    initializeListingValidity(providers, {
+        verifyFillability: VERIFY_LISTING_FILLABILITY,
+        fillabilityCacheSeconds: LISTING_FILLABILITY_CACHE_SECONDS,
+    });
+    initializePriceSources(
+        {
+            chainlinkFeeds: CHAINLINK_FEEDS,
+            ratesPath: CURRENCY_RATES_PATH,
+            staticRates: CURRENCY_RATES,
+        },
+        providers
+    );
+    initializeExpirationPolicy({
+        durationSeconds: ORDER_DURATION_SECONDS,
+        minPriceDurationSeconds: MIN_PRICE_LISTING_DURATION_SECONDS,
+        inheritCompetitorExpiration: INHERIT_COMPETITOR_EXPIRATION,
+        minDurationSeconds: ORDER_MIN_DURATION_SECONDS,
+        maxDurationSeconds: ORDER_MAX_DURATION_SECONDS,
+    });
+    const collectionsConfig = readCollectionsConfig(COLLECTION_PATH, providers);
+    const active: ActiveCollections = {
+        listings: initializeCollections(collectionsConfig),
+        offers: initializeOfferCollections(collectionsConfig),
+    };
+    const crossGuardMargin = parseEther(CROSS_GUARD_MARGIN_ETH);
+    initializeCrossGuard(active.listings, active.offers, crossGuardMargin);
+
+    // Discover holdings before the first listing round so auto-discovered entries are populated
+    await discoverHoldings(active.listings, openSeaClients, owner.address);
+
+    // Count fills towards the acquisition targets before bidding again
+    setFillsFilePath(FILLS_PATH);
+    if (active.offers.length > 0) {
+        loadOfferFills(active.offers);
+        await trackOfferFills(active.offers, openSeaClients, owner.address, DRY_RUN);
+    }
+
+    // Top up WETH before the budgets read the balances
+    const treasuryTargets = parseChainAmounts('treasury target', TREASURY_TARGETS);
+    if (ENABLE_TREASURY) {
+        for (const chain of Object.keys(treasuryTargets)) {
+            if (!signers[chain]) {
+                throw new Error(
+                    `No RPC provider configured for chain ${chain} (needed by treasury)`
+                );
+            }
+        }
+        await runTreasury(treasuryTargets, signers, chainIds, DRY_RUN);
+    }
+
+    // Read balances and committed offers before the first offer round
+    const offerBudgetLimits = parseChainAmounts('offer budget', OFFER_BUDGETS);
+    const offerBudgets = await refreshOfferBudgets(
+        active.offers,
+        openSeaClients,
+        signers,
+        chainIds,
+        owner.address,
+        offerBudgetLimits
+    );
+
+    if (ENABLE_COLLECTION_RELOAD) {
+        watchCollections(
+            COLLECTION_PATH,
+            providers,
+            active,
+            async (added) => {
+                initializeCrossGuard(active.listings, active.offers, crossGuardMargin);
+                loadOfferFills(added.offers);
+                await discoverHoldings(added.listings, openSeaClients, owner.address);
+                // Chains added by the reload get a budget before their first offer round
+                Object.assign(
+                    offerBudgets,
+                    await refreshOfferBudgets(
+                        active.offers,
+                        openSeaClients,
+                        signers,
+                        chainIds,
+                        owner.address,
+                        offerBudgetLimits
+                    )
+                );
+            },
+            COLLECTION_RELOAD_INTERVAL_SECONDS
+        );
+    }
 
+    // Loops read the active entries every round, so they all run even if a list is empty for now
     const tasks = [
-        monitorListings(collections, openSeaClients, owner.address, DRY_RUN),
-        monitorOffers(offerCollections, openSeaClients, chainIds, owner.address, DRY_RUN),
+        pollEntries(
+            active,
+            openSeaClients,
+            signers,
+            chainIds,
+            offerBudgets,
+            owner.address,
+            DRY_RUN
+        ),
+        refreshBudgets(
+            active,
+            openSeaClients,
+            signers,
+            chainIds,
+            offerBudgets,
+            offerBudgetLimits,
+            owner.address
+        ),
+        trackFills(active, openSeaClients, owner.address, DRY_RUN),
+        refreshHoldings(active, openSeaClients, owner.address),
     ];
 
+    if (ENABLE_TREASURY) {
+        tasks.push(manageTreasuries(treasuryTargets, signers, chainIds, DRY_RUN));
+    }
+
     if (ENABLE_OFFER_CANCELLATION) {
-        tasks.push(cancelStaleOffers(offerCollections, openSeaClients, owner.address, DRY_RUN));
+        tasks.push(cancelStaleOffers(active, openSeaClients, owner.address, DRY_RUN));
+    }
+
+    if (ENABLE_OFFER_RECONCILIATION) {
+        tasks.push(reconcileStaleOffers(active, openSeaClients, owner.address, DRY_RUN));
+    }
+
+    if (ENABLE_ORDER_RENEWAL) {
+        tasks.push(
+            renewOrders(active, openSeaClients, signers, offerBudgets, owner.address, DRY_RUN)
+        );
     }
 
     await Promise.all(tasks);
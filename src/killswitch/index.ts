@@ -0,0 +1,11 @@
+export { type KillSwitchScope, type KillSwitchMode, type PausedScope } from './types.js';
+export {
+    setPauseFilePath,
+    getPausedScopes,
+    isPaused,
+    assertNotPaused,
+    pause,
+    resume,
+    describeScope,
+} from './pauseState.js';
+export { killSwitch } from './killSwitch.js';
@@ -0,0 +1,199 @@
+import { Contract, formatEther, Signer } from 'ethers';
+import { AssetEventType, OpenSeaSDK } from 'opensea-js';
+
+import { logger } from '../utils/logger.js';
+import { withRetry } from '../utils/ratelimit.js';
+import { SEAPORT_ABI, SEAPORT_ADDRESS } from '../networks/contracts.js';
+import { getAccountCollectionSlugs } from '../collections/getAccountCollectionSlugs.js';
+import { getAllListings } from '../listings/getAllListings.js';
+import { cancelListing } from '../listings/cancelListing.js';
+import { getAllOffers } from '../offers/getAllOffers.js';
+import { cancelOffer } from '../offers/cancelOffer.js';
+import { describeScope, pause } from './pauseState.js';
+import { KillSwitchMode, KillSwitchScope } from './types.js';
+import { MAX_ORDER_DURATION_SECONDS } from '../expiration/expirationPolicy.js';
+
+const ORDER_EVENT_TYPES = [
+    AssetEventType.LISTING,
+    AssetEventType.OFFER,
+    AssetEventType.COLLECTION_OFFER,
+    AssetEventType.TRAIT_OFFER,
+];
+
+/**
+ * Cancels all of the wallet's offers of a chain offchain and its listings onchain
+ * Listings are not protected by the SignedZone, so each one is canceled in its own transaction.
+ * @param chain The chain name
+ * @param seaport The OpenSea SDK instance of the chain
+ * @param owner The wallet owner address
+ * @param slugs The collection slugs to cancel orders of
+ * @param dryRun If true, skip actual cancellation
+ */
+const softCancel = async (
+    chain: string,
+    seaport: OpenSeaSDK,
+    owner: string,
+    slugs: Set<string>,
+    dryRun: boolean
+) => {
+    let canceled = 0;
+    let canceledListings = 0;
+    let failed = 0;
+
+    for (const slug of slugs) {
+        for (const listing of await getAllListings(seaport, slug, undefined, owner)) {
+            try {
+                await cancelListing(seaport, slug, listing, owner, dryRun);
+                canceledListings++;
+            } catch (err) {
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                logger.error(
+                    `Failed to onchain cancel listing ${listing.order_hash} for ${slug} on chain ${chain}: ${errorMessage}`
+                );
+                failed++;
+            }
+        }
+
+        for (const offer of await getAllOffers(seaport, slug, undefined, owner)) {
+            try {
+                await cancelOffer(seaport, slug, offer, dryRun);
+                canceled++;
+            } catch (err) {
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                logger.error(
+                    `Failed to offchain cancel offer ${offer.order_hash} for ${slug} on chain ${chain}: ${errorMessage}`
+                );
+                failed++;
+            }
+        }
+    }
+
+    logger.info(
+        `${dryRun ? '[DRY-RUN] ' : ''}Canceled ${canceled} offer(s) offchain and ${canceledListings} listing(s) onchain on chain ${chain}${failed > 0 ? `, ${failed} failed (use hard mode to invalidate them onchain)` : ''}`
+    );
+};
+
+/**
+ * Estimates the Seaport incrementCounter() transaction of a chain and asks for confirmation
+ * @param chain The chain name
+ * @param signer The wallet of the chain
+ * @param confirm Callback asking the user to confirm a message
+ * @returns True if the transaction was confirmed
+ */
+const confirmHardCancel = async (
+    chain: string,
+    signer: Signer,
+    confirm: (message: string) => Promise<boolean>
+): Promise<boolean> => {
+    const seaport = new Contract(SEAPORT_ADDRESS, SEAPORT_ABI, signer);
+    const [gas, feeData] = await Promise.all([
+        withRetry(() => seaport.incrementCounter.estimateGas()),
+        withRetry(() => signer.provider!.getFeeData()),
+    ]);
+    const feePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+
+    return await confirm(
+        `Send Seaport incrementCounter() on ${chain}? This invalidates every listing and offer of ${await signer.getAddress()} on ${chain}. Estimated gas: ${gas} (up to ${formatEther(gas * feePerGas)} ETH)`
+    );
+};
+
+/**
+ * Sends the Seaport incrementCounter() transaction of a chain
+ * @param chain The chain name
+ * @param signer The wallet of the chain
+ * @param dryRun If true, skip the transaction
+ */
+const hardCancel = async (chain: string, signer: Signer, dryRun: boolean) => {
+    if (dryRun) {
+        logger.info(`[DRY-RUN] Would send Seaport incrementCounter() on ${chain}`);
+        return;
+    }
+
+    const seaport = new Contract(SEAPORT_ADDRESS, SEAPORT_ABI, signer);
+    logger.info(`Sending Seaport incrementCounter() on ${chain} ...`);
+    const tx = await seaport.incrementCounter();
+    await tx.wait();
+    logger.info(`Successfully invalidated all orders on ${chain} in tx ${tx.hash}`);
+};
+
+/**
+ * Cancels all of the wallet's orders in a scope and pauses new orders in it until resumed
+ * @param scope The chain and/or collection to cancel orders of, everything if empty
+ * @param mode soft to cancel offers offchain and listings onchain one by one, hard to invalidate
+ * every order of the chain onchain
+ * @param openSeaClients Record of OpenSea SDK instances by chain
+ * @param signers Record of wallets by chain
+ * @param owner The wallet owner address
+ * @param configuredSlugs Record of configured collection slugs by chain
+ * @param confirm Callback asking the user to confirm hard mode transactions
+ * @param dryRun If true, only log the cancellations
+ */
+export const killSwitch = async (
+    scope: KillSwitchScope,
+    mode: KillSwitchMode,
+    openSeaClients: Record<string, OpenSeaSDK>,
+    signers: Record<string, Signer>,
+    owner: string,
+    configuredSlugs: Record<string, string[]>,
+    confirm: (message: string) => Promise<boolean>,
+    dryRun: boolean = false
+) => {
+    if (scope.collectionSlug && !scope.chain) {
+        throw new Error(`A chain is required to kill orders of collection ${scope.collectionSlug}`);
+    }
+    if (scope.collectionSlug && mode === 'hard') {
+        throw new Error(
+            `Hard mode invalidates every order of the chain and cannot be scoped to collection ${scope.collectionSlug}`
+        );
+    }
+    if (scope.chain && !openSeaClients[scope.chain]) {
+        throw new Error(`No RPC provider configured for chain ${scope.chain}`);
+    }
+    const chains = scope.chain ? [scope.chain] : Object.keys(openSeaClients);
+
+    // Confirm every transaction before touching anything
+    if (mode === 'hard' && !dryRun) {
+        for (const chain of chains) {
+            if (!(await confirmHardCancel(chain, signers[chain], confirm))) {
+                logger.info(`Kill switch aborted for ${describeScope(scope)}`);
+                return;
+            }
+        }
+    }
+
+    // Pause first so a running bot does not post new orders while we cancel
+    if (dryRun) {
+        logger.info(`[DRY-RUN] Would pause new orders for ${describeScope(scope)}`);
+    } else {
+        pause(scope, mode);
+    }
+
+    for (const chain of chains) {
+        try {
+            if (mode === 'hard') {
+                await hardCancel(chain, signers[chain], dryRun);
+                continue;
+            }
+
+            const seaport = openSeaClients[chain];
+            let slugs = new Set(scope.collectionSlug ? [scope.collectionSlug] : []);
+            if (!scope.collectionSlug) {
+                slugs = new Set(configuredSlugs[chain] || []);
+                const after = Math.floor(Date.now() / 1000) - MAX_ORDER_DURATION_SECONDS;
+                for (const eventType of ORDER_EVENT_TYPES) {
+                    await getAccountCollectionSlugs(
+                        seaport,
+                        owner,
+                        eventType,
+                        after,
+                        undefined,
+                        slugs
+                    );
+                }
+            }
+            await softCancel(chain, seaport, owner, slugs, dryRun);
+        } catch (err) {
+            logger.error(`Error killing orders on chain ${chain}:`, err);
+        }
+    }
+};
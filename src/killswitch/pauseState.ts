@@ -0,0 +1,100 @@
+import fs from 'fs';
+
+import { logger } from '../utils/logger.js';
+import { KillSwitchScope, PausedScope } from './types.js';
+
+let pauseFilePath = 'data/paused.json';
+
+/**
+ * Sets the file the paused scopes are persisted to, shared by the bot and the CLI
+ * @param path Path to the pause file
+ */
+export const setPauseFilePath = (path: string) => {
+    pauseFilePath = path;
+};
+
+/**
+ * Gets all paused scopes
+ * @returns Array of paused scopes, empty when trading is not paused
+ */
+export const getPausedScopes = (): PausedScope[] => {
+    if (!fs.existsSync(pauseFilePath)) {
+        return [];
+    }
+    return JSON.parse(fs.readFileSync(pauseFilePath, 'utf-8'));
+};
+
+/**
+ * Checks if new orders are paused for a collection
+ * @param chain The chain of the collection
+ * @param collectionSlug The collection slug
+ * @returns True if a paused scope covers the collection
+ */
+export const isPaused = (chain: string, collectionSlug: string): boolean =>
+    getPausedScopes().some(
+        (s) =>
+            (!s.chain || s.chain === chain) &&
+            (!s.collectionSlug || s.collectionSlug === collectionSlug)
+    );
+
+/**
+ * Throws if new orders are paused for a collection
+ * @param chain The chain of the collection
+ * @param collectionSlug The collection slug
+ */
+export const assertNotPaused = (chain: string, collectionSlug: string) => {
+    if (isPaused(chain, collectionSlug)) {
+        throw new Error(
+            `New orders for ${collectionSlug} on ${chain} are paused by the kill switch. Run the resume command to allow them again.`
+        );
+    }
+};
+
+/**
+ * Pauses new orders for a scope
+ * @param scope The scope to pause
+ * @param mode The kill switch mode that paused it
+ */
+export const pause = (scope: KillSwitchScope, mode: PausedScope['mode']) => {
+    const scopes = getPausedScopes();
+    scopes.push({ ...scope, mode, pausedAt: new Date().toISOString() });
+    fs.writeFileSync(pauseFilePath, JSON.stringify(scopes, null, 4));
+    logger.warn(`New orders paused for ${describeScope(scope)} until resumed`);
+};
+
+/**
+ * Resumes new orders for a scope, or for everything when no scope is given
+ * @param scope Optional scope to resume, must match a paused scope exactly
+ */
+export const resume = (scope: KillSwitchScope = {}) => {
+    const resumeAll = !scope.chain && !scope.collectionSlug;
+    const scopes = getPausedScopes();
+    const remaining = resumeAll
+        ? []
+        : scopes.filter(
+              (s) => s.chain !== scope.chain || s.collectionSlug !== scope.collectionSlug
+          );
+    if (remaining.length === scopes.length) {
+        logger.info(`Nothing paused for ${describeScope(scope)}`);
+        return;
+    }
+
+    if (remaining.length === 0) {
+        fs.rmSync(pauseFilePath, { force: true });
+    } else {
+        fs.writeFileSync(pauseFilePath, JSON.stringify(remaining, null, 4));
+    }
+    logger.info(`New orders resumed for ${describeScope(scope)}`);
+};
+
+/**
+ * Describes a scope for logging
+ * @param scope The scope
+ * @returns e.g. "all chains", "chain ethereum" or "cryptopunks on ethereum"
+ */
+export const describeScope = (scope: KillSwitchScope): string => {
+    if (scope.collectionSlug) {
+        return `${scope.collectionSlug} on ${scope.chain}`;
+    }
+    return scope.chain ? `chain ${scope.chain}` : 'all chains';
+};
@@ -0,0 +1,22 @@
+/**
+ * Orders affected by the kill switch, everything when neither field is set
+ */
+export type KillSwitchScope = {
+    chain?: string;
+    collectionSlug?: string; // Requires chain
+};
+
+/**
+ * - soft: cancel every offer offchain through the OpenSea API and every listing onchain, one
+ *   transaction per listing
+ * - hard: send Seaport incrementCounter(), invalidating every order of the chain onchain
+ */
+export type KillSwitchMode = 'soft' | 'hard';
+
+/**
+ * A paused scope, persisted until it is explicitly resumed
+ */
+export type PausedScope = KillSwitchScope & {
+    mode: KillSwitchMode;
+    pausedAt: string;
+};
@@ -0,0 +1,49 @@
+import { formatEther } from 'ethers';
+import { OpenSeaSDK, Listing } from 'opensea-js';
+
+import { logger } from '../utils/logger.js';
+import { withRateLimitRetry } from '../utils/ratelimit.js';
+import { sendOnChain } from '../networks/index.js';
+import { invalidateOrderBook } from '../orderbook/index.js';
+import { getListingPricePerUnit } from './utils.js';
+
+/**
+ * Cancels a listing onchain so it can no longer be filled
+ * Listings are not protected by the SignedZone, so they cannot be canceled offchain
+ * @param seaport The OpenSea SDK instance
+ * @param collectionSlug The collection slug
+ * @param listing The listing to cancel
+ * @param owner The wallet owner address
+ * @param dryRun If true, skip actual cancellation
+ */
+export const cancelListing = async (
+    seaport: OpenSeaSDK,
+    collectionSlug: string,
+    listing: Listing,
+    owner: string,
+    dryRun: boolean = false
+): Promise<void> => {
+    const price = formatEther(getListingPricePerUnit(listing));
+
+    if (dryRun) {
+        logger.info(
+            `[DRY-RUN] Would cancel listing ${listing.order_hash} for ${collectionSlug} at ${price} ETH`
+        );
+        return;
+    }
+
+    await sendOnChain(seaport.chain, () =>
+        withRateLimitRetry(() =>
+            seaport.cancelOrder({
+                orderHash: listing.order_hash,
+                protocolAddress: listing.protocol_address,
+                accountAddress: owner,
+            })
+        )
+    );
+    invalidateOrderBook(seaport.chain, 'listings', collectionSlug);
+
+    logger.info(
+        `Successfully canceled listing ${listing.order_hash} for ${collectionSlug} at ${price} ETH`
+    );
+};
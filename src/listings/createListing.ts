@@ -3,6 +3,8 @@ import { OpenSeaSDK, OrderV2 } from 'opensea-js';
 
 import { logger } from '../utils/logger.js';
 import { withRateLimitRetry } from '../utils/ratelimit.js';
+import { assertNotPaused } from '../killswitch/index.js';
+import { invalidateOrderBook } from '../orderbook/index.js';
 
 const MIN_EXPIRATION_TIME_SECONDS = 11 * 60; // 11 minutes
 
@@ -12,9 +14,10 @@ const MIN_EXPIRATION_TIME_SECONDS = 11 * 60; // 11 minutes
  * @param collectionSlug The collection slug
  * @param tokenAddress The token contract address
  * @param tokenId The token ID
- * @param price The price in wei
+ * @param price The price per unit in wei
  * @param expirationTime The expiration timestamp
  * @param owner The wallet owner address
+ * @param quantity The quantity of units to list (default: 1, only ERC1155 tokens support more)
  * @param dryRun If true, skip actual listing creation
  * @returns The created OrderV2 or undefined in dry-run mode
  */
@@ -26,16 +29,20 @@ export const createListing = async (
     price: bigint,
     expirationTime: number,
     owner: string,
+    quantity: number = 1,
     dryRun: boolean = false
 ): Promise<OrderV2 | undefined> => {
+    assertNotPaused(seaport.chain, collectionSlug);
+
     // Enforce minimum expiration time of 11 minutes from now
     const currentTime = Math.floor(Date.now() / 1000);
     const minExpirationTime = currentTime + MIN_EXPIRATION_TIME_SECONDS;
     const adjustedExpirationTime = Math.max(expirationTime, minExpirationTime);
+    const quantityText = quantity > 1 ? ` per unit (quantity: ${quantity})` : '';
 
     if (dryRun) {
         logger.info(
-            `[DRY-RUN] Would create listing for ${collectionSlug} ${tokenAddress}:${tokenId} at ${formatEther(price)} ETH (expires: ${new Date(adjustedExpirationTime * 1000).toISOString()})`
+            `[DRY-RUN] Would create listing for ${collectionSlug} ${tokenAddress}:${tokenId} at ${formatEther(price)} ETH${quantityText} (expires: ${new Date(adjustedExpirationTime * 1000).toISOString()})`
         );
         return undefined;
     }
@@ -47,14 +54,17 @@ export const createListing = async (
                 tokenAddress,
             },
             accountAddress: owner,
-            amount: formatEther(price),
+            // The amount covers the whole order, so multiply the per-unit price by quantity
+            amount: formatEther(price * BigInt(quantity)),
+            quantity,
             expirationTime: adjustedExpirationTime,
             includeOptionalCreatorFees: false,
         })
     );
+    invalidateOrderBook(seaport.chain, 'listings', collectionSlug);
 
     logger.info(
-        `Successfully listed ${collectionSlug} ${tokenAddress}:${tokenId} at ${formatEther(price)} ETH`
+        `Successfully listed ${collectionSlug} ${tokenAddress}:${tokenId} at ${formatEther(price)} ETH${quantityText}`
     );
     return tx;
 };
@@ -0,0 +1,28 @@
+import { OpenSeaSDK, Listing } from 'opensea-js';
+
+import { filterByOfferer, getListingBook } from '../orderbook/index.js';
+
+/**
+ * Gets all listings for a collection, optionally filtered by token ID and offerer
+ * @param seaport The OpenSea SDK instance
+ * @param collectionSlug The collection slug
+ * @param tokenId Optional token ID to filter by
+ * @param offerer Optional offerer address to filter by
+ * @returns Array of all matching listings
+ */
+export const getAllListings = async (
+    seaport: OpenSeaSDK,
+    collectionSlug: string,
+    tokenId?: string,
+    offerer?: string
+): Promise<Listing[]> => {
+    const book = await getListingBook(seaport, collectionSlug);
+
+    if (tokenId) {
+        return filterByOfferer(book.byToken.get(tokenId) || [], offerer);
+    }
+    if (offerer) {
+        return [...(book.byOfferer.get(offerer.toLowerCase()) || [])];
+    }
+    return [...book.listings];
+};
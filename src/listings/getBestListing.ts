@@ -1,16 +1,18 @@
-import { getAddress } from 'ethers';
 import { OpenSeaSDK, Listing } from 'opensea-js';
 
-import { withRateLimitRetry } from '../utils/ratelimit.js';
-import { sumOfferEndAmounts } from './utils.js';
+import { isExcludedAddress } from '../utils/counterparties.js';
+import { normalizeListings } from '../prices/index.js';
+import { filterByOfferer, getListingBook } from '../orderbook/index.js';
+import { getListingPricePerUnit } from './utils.js';
+import { findCompetingListing } from './listingValidity.js';
 
 /**
- * Gets the best (cheapest) listing for a collection
+ * Gets the best (cheapest) listing for a collection, skipping private, bundled and unfillable listings
  * @param seaport The OpenSea SDK instance
  * @param collectionSlug The collection slug
  * @param tokenId Optional token ID to filter by
  * @param offerer Optional offerer address to filter by
- * @param next Optional pagination token
+ * @param excludeOfferers Optional offerer addresses whose listings are ignored, besides the ignored addresses
  * @returns The best listing or undefined if none found
  */
 export const getBestListing = async (
@@ -18,51 +20,28 @@ export const getBestListing = async (
     collectionSlug: string,
     tokenId?: string,
     offerer?: string,
-    next?: string
+    excludeOfferers?: string[]
 ): Promise<Listing | undefined> => {
-    const listingsResp = await withRateLimitRetry(() =>
-        seaport.api.getAllListings(collectionSlug, 100, next)
-    );
+    const book = await getListingBook(seaport, collectionSlug);
 
-    // Get all listings matching our criteria
-    const filteredListings = listingsResp.listings.filter((l) => {
-        const matchesToken = tokenId
-            ? l.protocol_data.parameters.offer.some((o) => o.identifierOrCriteria == tokenId)
-            : true;
-        const matchesOfferer = offerer
-            ? getAddress(l.protocol_data.parameters.offerer).toLowerCase() === offerer.toLowerCase()
-            : true;
+    // Get all listings matching our criteria, priced in ETH
+    const candidates = filterByOfferer(
+        tokenId ? book.byToken.get(tokenId) || [] : book.listings,
+        offerer
+    );
+    const listings = await normalizeListings(candidates);
+    const filteredListings = listings.filter((l) => {
+        const isExcluded = isExcludedAddress(l.protocol_data.parameters.offerer, excludeOfferers);
 
         const priceValue = l.price.current.value;
-        return priceValue && priceValue !== '0' && matchesToken && matchesOfferer;
+        return priceValue && priceValue !== '0' && !isExcluded;
     });
 
-    // Pick the cheapest
+    // Pick the cheapest per unit
     filteredListings.sort((a, b) => {
-        const priceA = BigInt(a.price.current.value) / sumOfferEndAmounts(a);
-        const priceB = BigInt(b.price.current.value) / sumOfferEndAmounts(b);
+        const priceA = getListingPricePerUnit(a);
+        const priceB = getListingPricePerUnit(b);
         return priceA < priceB ? -1 : priceA > priceB ? 1 : 0;
     });
-    let listing = filteredListings[0];
-
-    // If there are more pages, recursively check and compare
-    let nextListing: Listing | undefined;
-    if (listingsResp.next) {
-        nextListing = await getBestListing(
-            seaport,
-            collectionSlug,
-            tokenId,
-            offerer,
-            listingsResp.next
-        );
-        if (
-            !listing ||
-            (nextListing &&
-                BigInt(nextListing.price.current.value) / sumOfferEndAmounts(nextListing) <
-                    BigInt(listing.price.current.value) / sumOfferEndAmounts(listing))
-        ) {
-            return nextListing;
-        }
-    }
-    return listing;
+    return await findCompetingListing(filteredListings);
 };
@@ -1,11 +1,15 @@
 import { OpenSeaSDK, Listing, OrderSide } from 'opensea-js';
 
 import { withRateLimitRetry, withRetry } from '../utils/ratelimit.js';
+import { isExcludedAddress } from '../utils/counterparties.js';
+import { listingToETH, normalizeListings } from '../prices/index.js';
 import { orderV2ToListing } from './orderV2ToListing.js';
-import { getBestListing } from './getBestListing.js';
+import { getListingPricePerUnit } from './utils.js';
+import { findCompetingListing } from './listingValidity.js';
 
 /**
- * Gets the best listing for a specific token
+ * Gets the best listing for a specific token, ignoring listings of the ignored addresses and
+ * private, bundled or unfillable listings
  * @param seaport The OpenSea SDK instance
  * @param tokenAddress The token contract address
  * @param tokenId The token ID
@@ -13,7 +17,6 @@ import { getBestListing } from './getBestListing.js';
  */
 export const getSingleBestListing = async (
     seaport: OpenSeaSDK,
-    collectionSlug: string,
     tokenAddress: string,
     tokenId: string
 ): Promise<Listing | undefined> => {
@@ -24,7 +27,9 @@ export const getSingleBestListing = async (
             error instanceof Error &&
             error.message.includes('Sorting by price is only supported for a single token')
         ) {
-            return await getBestListing(seaport, collectionSlug, tokenId);
+            // ERC1155 tokens can have many listings of different quantities for the same token ID,
+            // so fetch them all and pick the cheapest one per unit
+            return await getBestListingFromAllOrders(seaport, tokenAddress, tokenId);
         }
 
         throw error;
@@ -46,9 +51,6 @@ const getBestListingFromOrders = async (
                 side: OrderSide.LISTING,
                 assetContractAddress: tokenAddress,
                 tokenIds: [tokenId],
-                // TODO: Handle "Sorting by price is only supported for a single token" error
-                // This means that for ERC1155 tokens, we need to get all listings and sort them by price
-                // and then pick the cheapest one.
                 orderBy: 'eth_price',
                 orderDirection: 'asc',
             })
@@ -58,5 +60,80 @@ const getBestListingFromOrders = async (
         return undefined;
     }
 
-    return orderV2ToListing(orderResp.orders[0], seaport.chain);
+    // Orders are sorted by ETH price, so the first valid one we can price in ETH is the best
+    const listings = await normalizeListings(
+        await Promise.all(
+            orderResp.orders
+                .filter((o) => !isExcludedAddress(o.maker.address))
+                .map((o) => orderV2ToListing(o, seaport.chain))
+        )
+    );
+    return await findCompetingListing(listings);
+};
+
+/**
+ * Gets the cheapest listing per unit by paging through all unsorted listings of a token
+ * @param seaport The OpenSea SDK instance
+ * @param tokenAddress The token contract address
+ * @param tokenId The token ID
+ * @param cursor Optional pagination cursor
+ * @returns The best listing or undefined if none found
+ */
+const getBestListingFromAllOrders = async (
+    seaport: OpenSeaSDK,
+    tokenAddress: string,
+    tokenId: string,
+    cursor?: string
+): Promise<Listing | undefined> => {
+    const orderResp = await withRetry(() =>
+        withRateLimitRetry(() =>
+            seaport.api.getOrders({
+                side: OrderSide.LISTING,
+                assetContractAddress: tokenAddress,
+                tokenIds: [tokenId],
+                cursor,
+            })
+        )
+    );
+
+    const candidates: Listing[] = [];
+    for (const order of orderResp.orders || []) {
+        if (
+            order.cancelled ||
+            order.finalized ||
+            order.markedInvalid ||
+            isExcludedAddress(order.maker.address)
+        ) {
+            continue;
+        }
+        const candidate = await listingToETH(await orderV2ToListing(order, seaport.chain));
+        if (candidate && BigInt(candidate.price.current.value) > 0n) {
+            candidates.push(candidate);
+        }
+    }
+
+    // Pick the cheapest valid listing per unit
+    candidates.sort((a, b) => {
+        const priceA = getListingPricePerUnit(a);
+        const priceB = getListingPricePerUnit(b);
+        return priceA < priceB ? -1 : priceA > priceB ? 1 : 0;
+    });
+    const listing = await findCompetingListing(candidates);
+
+    // If there are more pages, recursively check and compare
+    if (orderResp.next) {
+        const nextListing = await getBestListingFromAllOrders(
+            seaport,
+            tokenAddress,
+            tokenId,
+            orderResp.next
+        );
+        if (
+            !listing ||
+            (nextListing && getListingPricePerUnit(nextListing) < getListingPricePerUnit(listing))
+        ) {
+            return nextListing;
+        }
+    }
+    return listing;
 };
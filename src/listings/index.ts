@@ -1,5 +1,18 @@
+export { cancelListing } from './cancelListing.js';
 export { createListing } from './createListing.js';
+export { getAllListings } from './getAllListings.js';
 export { getBestListing } from './getBestListing.js';
 export { getSingleBestListing } from './getSingleBestListing.js';
+export { preflightListing } from './preflightListing.js';
+export {
+    initializeListingValidity,
+    findCompetingListing,
+    type ListingValidityOptions,
+} from './listingValidity.js';
 export { orderV2ToListing } from './orderV2ToListing.js';
-export { sumOfferEndAmounts } from './utils.js';
+export {
+    sumOfferEndAmounts,
+    getListingQuantity,
+    getListingPricePerUnit,
+    getListingPaymentToken,
+} from './utils.js';
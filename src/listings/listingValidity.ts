@@ -0,0 +1,144 @@
+import { Contract, JsonRpcProvider, ZeroHash } from 'ethers';
+import { Listing } from 'opensea-js';
+
+import { logger } from '../utils/logger.js';
+import { withRetry } from '../utils/ratelimit.js';
+import { NFT_ABI, OPENSEA_CONDUIT_ADDRESS, SEAPORT_ADDRESS } from '../networks/contracts.js';
+import { getOwnedBalance } from './preflightListing.js';
+
+// Seaport item types of NFTs, including criteria-based ones
+const NFT_ITEM_TYPES = [2, 3, 4, 5];
+
+/**
+ * Rules competing listings must pass to be undercut
+ */
+export type ListingValidityOptions = {
+    verifyFillability: boolean; // Ignore listings whose maker no longer owns or has not approved the token
+    fillabilityCacheSeconds: number; // How long a maker's ownership and approval are reused
+};
+
+type MakerFillability = {
+    fillable: boolean;
+    fetchedAt: number;
+};
+
+// RPC providers by chain, used to read the ownership and approvals of makers
+let providers: Record<string, JsonRpcProvider> = {};
+
+let options: ListingValidityOptions = {
+    verifyFillability: false,
+    fillabilityCacheSeconds: 300,
+};
+
+// Fillability of listings, by chain, maker, token and operator
+const fillabilityCache = new Map<string, MakerFillability>();
+
+/**
+ * Sets the rules competing listings must pass and the RPC providers used to check them
+ * @param chainProviders Record of RPC providers by chain
+ * @param validityOptions The validity rules
+ */
+export const initializeListingValidity = (
+    chainProviders: Record<string, JsonRpcProvider>,
+    validityOptions: ListingValidityOptions
+) => {
+    providers = chainProviders;
+    options = validityOptions;
+};
+
+/**
+ * Checks onchain that the maker of a listing still owns the token and has approved its transfer,
+ * cached for the configured time
+ * @param chain The chain name
+ * @param maker The maker address
+ * @param tokenAddress The token contract address
+ * @param tokenId The token ID
+ * @param operator The address the maker must have approved
+ * @returns True if a buyer could fill the listing
+ */
+const isFillableByMaker = async (
+    chain: string,
+    maker: string,
+    tokenAddress: string,
+    tokenId: string,
+    operator: string
+): Promise<boolean> => {
+    const key = `${chain}:${maker}:${tokenAddress}:${tokenId}:${operator}`.toLowerCase();
+    const cached = fillabilityCache.get(key);
+    const now = Math.floor(Date.now() / 1000);
+    if (cached && now - cached.fetchedAt < options.fillabilityCacheSeconds) {
+        return cached.fillable;
+    }
+
+    const contract = new Contract(tokenAddress, NFT_ABI, providers[chain]);
+    let fillable = (await getOwnedBalance(contract, tokenAddress, tokenId, maker)) > 0;
+    if (fillable) {
+        fillable = await withRetry(() => contract.isApprovedForAll(maker, operator));
+    }
+    fillabilityCache.set(key, { fillable, fetchedAt: now });
+    return fillable;
+};
+
+/**
+ * Checks if a listing is worth undercutting: public, a single token and fillable by its maker
+ * @param listing The listing to check
+ * @returns True if the listing is valid
+ */
+const isCompetingListing = async (listing: Listing): Promise<boolean> => {
+    const parameters = listing.protocol_data.parameters;
+
+    // Private listings send the NFT to a designated buyer through an extra consideration item
+    if (parameters.consideration.some((item) => NFT_ITEM_TYPES.includes(item.itemType))) {
+        logger.debug(`Listing ${listing.order_hash} is private. Ignoring it ...`);
+        return false;
+    }
+    if (parameters.offer.length !== 1) {
+        logger.debug(
+            `Listing ${listing.order_hash} is a bundle of ${parameters.offer.length} items. Ignoring it ...`
+        );
+        return false;
+    }
+
+    const item = parameters.offer[0];
+    if (!options.verifyFillability || !providers[listing.chain]) {
+        return true;
+    }
+
+    const operator = parameters.conduitKey === ZeroHash ? SEAPORT_ADDRESS : OPENSEA_CONDUIT_ADDRESS;
+    try {
+        const fillable = await isFillableByMaker(
+            listing.chain,
+            parameters.offerer,
+            item.token,
+            item.identifierOrCriteria,
+            operator
+        );
+        if (!fillable) {
+            logger.debug(
+                `Listing ${listing.order_hash} cannot be filled: ${parameters.offerer} no longer owns or has not approved the token. Ignoring it ...`
+            );
+            return false;
+        }
+    } catch (err) {
+        // Better to undercut a stale listing than to ignore a real one
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        logger.warn(
+            `Could not verify that listing ${listing.order_hash} can be filled: ${errorMessage}`
+        );
+    }
+    return true;
+};
+
+/**
+ * Finds the first listing worth undercutting, skipping private, bundled and unfillable listings
+ * @param listings The listings, sorted from best to worst
+ * @returns The first valid listing or undefined if none is valid
+ */
+export const findCompetingListing = async (listings: Listing[]): Promise<Listing | undefined> => {
+    for (const listing of listings) {
+        if (await isCompetingListing(listing)) {
+            return listing;
+        }
+    }
+    return undefined;
+};
@@ -1,14 +1,31 @@
+import { ZeroAddress } from 'ethers';
 import { Listing, OrderV2, OrderStatus } from 'opensea-js';
 
+import { getChainIdFromChain } from '../networks/index.js';
+import { getTokenInfo, TokenInfo } from '../tokens/index.js';
+
 /**
  * Converts an OrderV2 to a Listing type.
  * @param orderV2 The OrderV2 object to convert
  * @param chain The chain the order exists on
  * @returns A Listing object
  */
-export function orderV2ToListing(orderV2: OrderV2, chain: string): Listing {
+export async function orderV2ToListing(orderV2: OrderV2, chain: string): Promise<Listing> {
     // Extract currency information from the order
-    const currency = getOrderCurrency(orderV2);
+    const currency = await getOrderCurrency(orderV2, chain);
+
+    // The order price covers the full listed amount while listing prices cover the
+    // remaining quantity, so scale it down for partially filled (ERC1155) orders
+    const listedQuantity = orderV2.protocolData.parameters.offer.reduce(
+        (sum: bigint, item: any) => sum + BigInt(item.endAmount),
+        0n
+    );
+    const remainingQuantity =
+        orderV2.remainingQuantity > 0 ? BigInt(orderV2.remainingQuantity) : listedQuantity;
+    const value =
+        listedQuantity > 0n
+            ? (orderV2.currentPrice * remainingQuantity) / listedQuantity
+            : orderV2.currentPrice;
 
     return {
         order_hash: orderV2.orderHash || '',
@@ -19,25 +36,24 @@ export function orderV2ToListing(orderV2: OrderV2, chain: string): Listing {
             current: {
                 currency: currency.symbol,
                 decimals: currency.decimals,
-                value: orderV2.currentPrice.toString(),
+                value: value.toString(),
             },
         },
         type: orderV2.orderType,
-        remaining_quantity: 1,
+        remaining_quantity: Number(remainingQuantity),
         status: OrderStatus.ACTIVE,
     };
 }
 
 /**
  * Extracts currency information from an OrderV2 by parsing the Seaport protocol data.
+ * Unknown ERC20 tokens are looked up onchain. Tokens that cannot be looked up are
+ * reported as UNKNOWN so they are never compared against ETH prices.
  * @param orderV2 The OrderV2 object to extract currency from
- * @returns An object containing currency information including address, symbol, and decimals
+ * @param chain The chain the order exists on
+ * @returns The currency token including address, symbol, and decimals
  */
-function getOrderCurrency(orderV2: OrderV2): {
-    address: string;
-    symbol: string;
-    decimals: number;
-} {
+async function getOrderCurrency(orderV2: OrderV2, chain: string): Promise<TokenInfo> {
     // For Seaport orders, the currency is in the consideration items
     const seaportOrder = orderV2.protocolData as any;
 
@@ -58,60 +74,8 @@ function getOrderCurrency(orderV2: OrderV2): {
     // Get the first currency item (there might be multiple for fees)
     const currencyItem = currencyItems[0];
 
-    let address: string;
-    let symbol: string;
-    let decimals: number;
-
-    if (currencyItem.itemType === 0) {
-        // ETH
-        address = '0x0000000000000000000000000000000000000000';
-        symbol = 'ETH';
-        decimals = 18;
-    } else if (currencyItem.itemType === 1) {
-        // ERC20 token
-        address = currencyItem.token;
-        // Use helper functions to get symbol and decimals
-        symbol = getCurrencySymbol(address); // Default to Mainnet, could be enhanced
-        decimals = getCurrencyDecimals(address);
-    } else {
-        throw new Error(`Unsupported currency item type: ${currencyItem.itemType}`);
-    }
-
-    return { address, symbol, decimals };
-}
-
-/**
- * Gets the currency symbol for a given token address.
- *  TODO: Support chain-specific token symbols
- * @param address The token address
- * @returns The currency symbol
- */
-function getCurrencySymbol(address: string): string {
-    const normalizedAddress = address.toLowerCase();
-
-    // Common token addresses
-    const tokenSymbols: Record<string, string> = {
-        '0x0000000000000000000000000000000000000000': 'ETH',
-    };
-
-    return tokenSymbols[normalizedAddress] || 'UNKNOWN';
-}
-
-/**
- * Gets the currency decimals for a given token address.
- * This is a simplified mapping - in a real implementation, you might want to query the token contract.
- * @param address The token address
- * @returns The number of decimals (defaults to 18 for most tokens)
- */
-function getCurrencyDecimals(address: string): number {
-    const normalizedAddress = address.toLowerCase();
-
-    // Most ERC20 tokens use 18 decimals, but some use different values
-    // eg. USDC has 6 decimals
-    const tokenDecimals: Record<string, number> = {
-        '0x0000000000000000000000000000000000000000': 18, // ETH
-        // Add other tokens with non-standard decimals here if needed
-    };
-
-    return tokenDecimals[normalizedAddress] || 18;
+    // itemType 0 is the chain's native token, which is not ETH on every chain
+    const address = currencyItem.itemType === 0 ? ZeroAddress : currencyItem.token;
+    const token = await getTokenInfo(getChainIdFromChain(chain), address);
+    return token ?? { address, symbol: 'UNKNOWN', decimals: 18 };
 }
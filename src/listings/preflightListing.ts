@@ -0,0 +1,125 @@
+import { Contract, Signer } from 'ethers';
+
+import { logger } from '../utils/logger.js';
+import { withRetry } from '../utils/ratelimit.js';
+import { ERC1155_INTERFACE_ID, NFT_ABI, OPENSEA_CONDUIT_ADDRESS } from '../networks/contracts.js';
+import { sendOnChain } from '../networks/index.js';
+
+// Token standard per contract address, detected once via ERC165
+const isERC1155Cache = new Map<string, boolean>();
+
+/**
+ * Checks whether a token contract is an ERC1155 contract, caching the result
+ * @param contract The token contract
+ * @param tokenAddress The token contract address
+ * @returns True if the contract supports the ERC1155 interface
+ */
+const isERC1155 = async (contract: Contract, tokenAddress: string): Promise<boolean> => {
+    const key = tokenAddress.toLowerCase();
+    const cached = isERC1155Cache.get(key);
+    if (cached !== undefined) {
+        return cached;
+    }
+
+    let result: boolean;
+    try {
+        result = await withRetry(() => contract.supportsInterface(ERC1155_INTERFACE_ID));
+    } catch {
+        // Contracts without ERC165 support are treated as ERC721
+        result = false;
+    }
+    isERC1155Cache.set(key, result);
+    return result;
+};
+
+/**
+ * Gets how many units of a token the owner holds onchain
+ * @param contract The token contract
+ * @param tokenAddress The token contract address
+ * @param tokenId The token ID
+ * @param owner The wallet owner address
+ * @returns The owned balance (0 or 1 for ERC721 tokens)
+ */
+export const getOwnedBalance = async (
+    contract: Contract,
+    tokenAddress: string,
+    tokenId: string,
+    owner: string
+): Promise<number> => {
+    if (await isERC1155(contract, tokenAddress)) {
+        const balance: bigint = await withRetry(() => contract.balanceOf(owner, tokenId));
+        return Number(balance);
+    }
+
+    try {
+        const tokenOwner: string = await withRetry(() => contract.ownerOf(tokenId));
+        return tokenOwner.toLowerCase() === owner.toLowerCase() ? 1 : 0;
+    } catch (err) {
+        // ownerOf reverts for burned or nonexistent tokens
+        logger.debug(`ownerOf(${tokenId}) reverted for ${tokenAddress}:`, err);
+        return 0;
+    }
+};
+
+/**
+ * Runs onchain pre-flight checks before listing a token: ownership (ownerOf/balanceOf)
+ * and approval of the OpenSea conduit (isApprovedForAll)
+ * @param signer The wallet connected to the chain's RPC provider
+ * @param chain The chain name
+ * @param collectionSlug The collection slug
+ * @param tokenAddress The token contract address
+ * @param tokenId The token ID
+ * @param autoApprove If true, send a setApprovalForAll transaction when the conduit is not approved
+ * @param dryRun If true, skip the approval transaction
+ * @returns The owned balance of the token, 0 if the token is no longer owned
+ */
+export const preflightListing = async (
+    signer: Signer,
+    chain: string,
+    collectionSlug: string,
+    tokenAddress: string,
+    tokenId: string,
+    autoApprove: boolean = false,
+    dryRun: boolean = false
+): Promise<number> => {
+    const owner = await signer.getAddress();
+    const contract = new Contract(tokenAddress, NFT_ABI, signer);
+
+    const balance = await getOwnedBalance(contract, tokenAddress, tokenId, owner);
+    if (balance === 0) {
+        return 0;
+    }
+
+    const isApproved: boolean = await withRetry(() =>
+        contract.isApprovedForAll(owner, OPENSEA_CONDUIT_ADDRESS)
+    );
+    if (isApproved) {
+        return balance;
+    }
+
+    if (!autoApprove) {
+        throw new Error(
+            `OpenSea conduit ${OPENSEA_CONDUIT_ADDRESS} is not approved to transfer ${collectionSlug} tokens (${tokenAddress}) of ${owner}. Call setApprovalForAll(${OPENSEA_CONDUIT_ADDRESS}, true) on the token contract or set ENABLE_AUTO_APPROVAL=true.`
+        );
+    }
+
+    if (dryRun) {
+        logger.info(
+            `[DRY-RUN] Would approve OpenSea conduit ${OPENSEA_CONDUIT_ADDRESS} for ${collectionSlug} (${tokenAddress})`
+        );
+        return balance;
+    }
+
+    logger.info(
+        `Approving OpenSea conduit ${OPENSEA_CONDUIT_ADDRESS} for ${collectionSlug} (${tokenAddress}) ...`
+    );
+    const tx = await sendOnChain(chain, async () => {
+        const tx = await contract.setApprovalForAll(OPENSEA_CONDUIT_ADDRESS, true);
+        await tx.wait();
+        return tx;
+    });
+    logger.info(
+        `Successfully approved OpenSea conduit for ${collectionSlug} (${tokenAddress}) in tx ${tx.hash}`
+    );
+    return balance;
+};
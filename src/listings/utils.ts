@@ -1,3 +1,4 @@
+import { ZeroAddress } from 'ethers';
 import { Listing } from 'opensea-js';
 
 /**
@@ -10,3 +11,36 @@ export function sumOfferEndAmounts(listing: Listing): bigint {
         return sum + BigInt(offer.endAmount);
     }, 0n);
 }
+
+/**
+ * Gets the quantity of items still available in a listing
+ * Falls back to the listed amount when the remaining quantity is not reported
+ * @param listing The listing to get quantity from
+ * @returns The remaining quantity as a number
+ */
+export function getListingQuantity(listing: Listing): number {
+    if (listing.remaining_quantity && listing.remaining_quantity > 0) {
+        return listing.remaining_quantity;
+    }
+    return Number(sumOfferEndAmounts(listing)) || 1;
+}
+
+/**
+ * Gets the price per unit for a listing
+ * The current price of a listing covers its remaining quantity, so partially filled
+ * ERC1155 listings are priced per unit of what is actually left to buy
+ * @param listing The listing to get price from
+ * @returns The price per unit as a bigint
+ */
+export function getListingPricePerUnit(listing: Listing): bigint {
+    return BigInt(listing.price.current.value) / BigInt(getListingQuantity(listing));
+}
+
+/**
+ * Gets the token a listing is paid in
+ * @param listing The listing
+ * @returns The payment token address, the zero address for ETH
+ */
+export function getListingPaymentToken(listing: Listing): string {
+    return listing.protocol_data.parameters.consideration[0]?.token ?? ZeroAddress;
+}
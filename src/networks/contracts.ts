@@ -0,0 +1,49 @@
+/**
+ * OpenSea conduit address, the operator that transfers tokens for Seaport orders (same on all chains)
+ */
+export const OPENSEA_CONDUIT_ADDRESS = '0x1E0049783F008A0085193E00003D00cd54003c71';
+
+/**
+ * Seaport 1.6 address (same on all chains)
+ */
+export const SEAPORT_ADDRESS = '0x0000000000000068F116a894984e2DB1123eB395';
+
+/**
+ * Minimal ABI for Seaport counter management
+ */
+export const SEAPORT_ABI = [
+    'function getCounter(address offerer) view returns (uint256)',
+    'function incrementCounter() returns (uint256)',
+];
+
+/**
+ * ERC165 interface ID of ERC1155, any other token contract is treated as ERC721
+ */
+export const ERC1155_INTERFACE_ID = '0xd9b67a26';
+
+/**
+ * Minimal ABI for ERC721 and ERC1155 tokens
+ */
+export const NFT_ABI = [
+    'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+    'function ownerOf(uint256 tokenId) view returns (address)',
+    'function balanceOf(address account, uint256 id) view returns (uint256)',
+    'function isApprovedForAll(address account, address operator) view returns (bool)',
+    'function setApprovalForAll(address operator, bool approved)',
+];
+
+/**
+ * Minimal ABI for ERC20 tokens
+ */
+export const ERC20_ABI = [
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+    'function balanceOf(address account) view returns (uint256)',
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'function approve(address spender, uint256 amount) returns (bool)',
+];
+
+/**
+ * Minimal ABI for wrapping ether into WETH
+ */
+export const WETH_ABI = [...ERC20_ABI, 'function deposit() payable'];
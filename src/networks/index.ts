@@ -1,9 +1,14 @@
-import { ethers, Network, JsonRpcProvider, Wallet } from 'ethers';
+import { ethers, Network, JsonRpcProvider, NonceManager } from 'ethers';
 import { OpenSeaSDK, Chain } from 'opensea-js';
 
 import { logger } from '../utils/logger.js';
 import { withRetry } from '../utils/ratelimit.js';
 
+// Signers by chain, each handing out the nonces of the wallet on its chain
+const nonceManagers: Record<string, NonceManager> = {};
+// Last onchain transaction queued on each chain
+const sendQueues: Record<string, Promise<unknown>> = {};
+
 const getChainFromChainId = (chainId: number): Chain => {
     switch (chainId) {
         case 1:
@@ -25,6 +30,49 @@ const getChainFromChainId = (chainId: number): Chain => {
     }
 };
 
+/**
+ * Gets the chain ID of an OpenSea chain
+ * @param chain The OpenSea chain name, e.g. ethereum or base
+ * @returns The chain ID
+ */
+export const getChainIdFromChain = (chain: string): number => {
+    switch (chain) {
+        case Chain.Mainnet:
+            return 1;
+        case Chain.Base:
+            return 8453;
+        case Chain.Arbitrum:
+            return 42161;
+        case Chain.Zora:
+            return 7777777;
+        case Chain.Polygon:
+            return 137;
+        case Chain.Shape:
+            return 360;
+        case Chain.Optimism:
+            return 10;
+        default:
+            throw new Error(`Unsupported chain: ${chain}`);
+    }
+};
+
+/**
+ * Sends an onchain transaction of the wallet once every earlier one of the chain is done
+ * Entries of a chain are polled concurrently, so their transactions are queued to keep nonces in
+ * order. A failed transaction may have used up a nonce locally, so the nonces are then read again.
+ * @param chain The chain name
+ * @param send Sends the transaction and waits for it
+ * @returns The result of send
+ */
+export const sendOnChain = <T>(chain: string, send: () => Promise<T>): Promise<T> => {
+    const result = (sendQueues[chain] || Promise.resolve()).then(send).catch((err) => {
+        nonceManagers[chain]?.reset();
+        throw err;
+    });
+    sendQueues[chain] = result.catch(() => {});
+    return result;
+};
+
 export const initializeClients = async (
     rpcEndpoints: string[],
     privateKey: string,
@@ -33,6 +81,7 @@ export const initializeClients = async (
     const providers: Record<string, JsonRpcProvider> = {};
     const openSeaClients: Record<string, OpenSeaSDK> = {};
     const chainIds: Record<string, number> = {};
+    const signers: Record<string, NonceManager> = {};
 
     for (const rpcEndpoint of rpcEndpoints) {
         const [chain, url] = rpcEndpoint.split('::');
@@ -55,7 +104,9 @@ export const initializeClients = async (
 
         providers[chain] = provider;
         chainIds[chain] = chainId;
-        const signer: Wallet = new ethers.Wallet(privateKey, provider);
+        const signer = new NonceManager(new ethers.Wallet(privateKey, provider));
+        signers[chain] = signer;
+        nonceManagers[chain] = signer;
         logger.debug(`${chain} RPC provider initialized.`);
 
         openSeaClients[chain] = new OpenSeaSDK(signer, {
@@ -65,5 +116,5 @@ export const initializeClients = async (
         logger.debug(`${chain} OpenSea client initialized.`);
     }
 
-    return { providers, openSeaClients, chainIds };
+    return { providers, openSeaClients, chainIds, signers };
 };
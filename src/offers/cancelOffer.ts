@@ -0,0 +1,39 @@
+import { formatEther } from 'ethers';
+import { Chain, OpenSeaSDK, Offer } from 'opensea-js';
+
+import { logger } from '../utils/logger.js';
+import { withRateLimitRetry } from '../utils/ratelimit.js';
+import { invalidateOrderBook } from '../orderbook/index.js';
+import { getOfferPricePerItem } from './utils.js';
+
+/**
+ * Cancels an offer offchain through the OpenSea SignedZone
+ * @param seaport The OpenSea SDK instance
+ * @param collectionSlug The collection slug
+ * @param offer The offer to cancel
+ * @param dryRun If true, skip actual cancellation
+ */
+export const cancelOffer = async (
+    seaport: OpenSeaSDK,
+    collectionSlug: string,
+    offer: Offer,
+    dryRun: boolean = false
+): Promise<void> => {
+    const price = `${formatEther(getOfferPricePerItem(offer))} ${offer.price.currency}`;
+
+    if (dryRun) {
+        logger.info(
+            `[DRY-RUN] Would cancel offer ${offer.order_hash} for ${collectionSlug} at ${price} per item`
+        );
+        return;
+    }
+
+    await withRateLimitRetry(() =>
+        seaport.offchainCancelOrder(offer.protocol_address, offer.order_hash, offer.chain as Chain)
+    );
+    invalidateOrderBook(seaport.chain, 'offers', collectionSlug);
+
+    logger.info(
+        `Successfully canceled offer ${offer.order_hash} for ${collectionSlug} at ${price} per item`
+    );
+};
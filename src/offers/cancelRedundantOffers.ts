@@ -3,14 +3,15 @@ import { Chain, OpenSeaSDK, Offer } from 'opensea-js';
 
 import { logger } from '../utils/logger.js';
 import { withRateLimitRetry } from '../utils/ratelimit.js';
-import { OfferCollection, inferOfferType } from '../collections/types.js';
-import { getAllOffers } from './getAllOffers.js';
-import { getAllCollectionOffers } from './getAllCollectionOffers.js';
-import { getAllTraitOffers } from './getAllTraitOffers.js';
+import { invalidateOrderBook } from '../orderbook/index.js';
+import { OfferCollection } from '../collections/types.js';
+import { getOffersForCollection } from './getOffersForCollection.js';
+import { releaseOfferExposure } from './offerBudget.js';
 import { getOfferPricePerItem, getOfferQuantity } from './utils.js';
 
 /**
- * Gets all offers to cancel for a single collection (all except the highest priced one)
+ * Gets all offers to cancel for a single collection (all except the highest priced one
+ * and the offers of its tiers)
  * @param c The offer collection configuration
  * @param seaport The OpenSea SDK instance
  * @param owner The wallet owner address
@@ -20,31 +21,15 @@ const getOffersToCancelForCollection = async (
     c: OfferCollection,
     seaport: OpenSeaSDK,
     owner: string
-): Promise<Array<{ offer: Offer; collectionSlug: string }>> => {
-    // Infer offer type from configuration
-    const offerType = inferOfferType(c);
-
-    // Get all offers based on offer type
-    let allOffers: Offer[];
-    if (offerType === 'collection') {
-        allOffers = await getAllCollectionOffers(seaport, c.collectionSlug, owner);
-    } else if (offerType === 'trait' && c.trait) {
-        allOffers = await getAllTraitOffers(
-            seaport,
-            c.collectionSlug,
-            c.trait.traitType,
-            c.trait.value,
-            owner
-        );
-    } else {
-        // Single token offer
-        if (!c.tokenId) {
-            throw new Error(`tokenId is required for single token offers`);
-        }
-        allOffers = await getAllOffers(seaport, c.collectionSlug, c.tokenId, owner);
-    }
-
-    if (allOffers.length <= 1) {
+): Promise<Array<{ offer: Offer; collection: OfferCollection }>> => {
+    // Each tier intentionally keeps its own offer
+    const allOffers = (await getOffersForCollection(c, seaport, owner)).filter(
+        (o) => !c.tiers?.some((t) => t.orderHash === o.order_hash)
+    );
+    // Tiers not matched to their offer yet keep the next highest ones
+    const keep = 1 + (c.tiers || []).filter((t) => t.orderHash === undefined).length;
+
+    if (allOffers.length <= keep) {
         return [];
     }
 
@@ -56,14 +41,14 @@ const getOffersToCancelForCollection = async (
         return priceA > priceB ? -1 : priceA < priceB ? 1 : 0; // Descending order
     });
 
-    const offersToCancel = allOffers.slice(1);
+    const offersToCancel = allOffers.slice(keep);
 
-    // Return offers with their collection slug for tracking
-    return offersToCancel.map((offer) => ({ offer, collectionSlug: c.collectionSlug }));
+    // Return offers with their entry, whose exposure is freed once they are canceled
+    return offersToCancel.map((offer) => ({ offer, collection: c }));
 };
 
 /**
- * Cancels all offers except the best one for multiple offer collections
+ * Cancels all offers except the best one and the offers of their tiers for multiple offer collections
  * The "best" offer is determined by the highest price (highest price per item)
  * Cancels offers by chain to minimize API calls
  * @param collections Array of offer collection configurations
@@ -96,7 +81,7 @@ export const cancelRedundantOffers = async (
 
         try {
             // Get all offers to cancel across all collections on this chain
-            const allOffersToCancel: Array<{ offer: Offer; collectionSlug: string }> = [];
+            const allOffersToCancel: Array<{ offer: Offer; collection: OfferCollection }> = [];
 
             for (const collection of chainCollections) {
                 try {
@@ -122,14 +107,14 @@ export const cancelRedundantOffers = async (
             const orderHashes: string[] = [];
             const offersWithHashes: Array<{
                 offer: Offer;
-                collectionSlug: string;
+                collection: OfferCollection;
                 orderHash: string;
             }> = [];
 
-            for (const { offer, collectionSlug } of allOffersToCancel) {
+            for (const { offer, collection } of allOffersToCancel) {
                 if (offer.order_hash) {
                     orderHashes.push(offer.order_hash);
-                    offersWithHashes.push({ offer, collectionSlug, orderHash: offer.order_hash });
+                    offersWithHashes.push({ offer, collection, orderHash: offer.order_hash });
                 }
             }
 
@@ -150,7 +135,8 @@ export const cancelRedundantOffers = async (
 
             try {
                 // opensea-js does not currently expose a batch `offchainCancelOrders`, so cancel in a loop
-                for (const { offer, collectionSlug, orderHash } of offersWithHashes) {
+                for (const { offer, collection, orderHash } of offersWithHashes) {
+                    const collectionSlug = collection.collectionSlug;
                     try {
                         await withRateLimitRetry(() =>
                             seaport.offchainCancelOrder(
@@ -159,6 +145,8 @@ export const cancelRedundantOffers = async (
                                 offer.chain as Chain
                             )
                         );
+                        invalidateOrderBook(seaport.chain, 'offers', collectionSlug);
+                        releaseOfferExposure(offer, collection);
 
                         const pricePerItem = getOfferPricePerItem(offer);
                         const quantity = getOfferQuantity(offer);
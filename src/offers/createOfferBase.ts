@@ -3,6 +3,9 @@ import { OpenSeaSDK, OrderV2, CollectionOffer } from 'opensea-js';
 
 import { logger } from '../utils/logger.js';
 import { withRateLimitRetry } from '../utils/ratelimit.js';
+import { getChainIdFromChain } from '../networks/index.js';
+import { assertNotPaused } from '../killswitch/index.js';
+import { invalidateOrderBook } from '../orderbook/index.js';
 import { ETH_PAYMENT_TOKEN, getCurrencyFromAddress } from './paymentTokens.js';
 
 const MIN_EXPIRATION_TIME_SECONDS = 11 * 60; // 11 minutes
@@ -46,11 +49,17 @@ export const createOfferBase = async (
     paymentTokenAddress: string = ETH_PAYMENT_TOKEN,
     dryRun: boolean = false
 ): Promise<OrderV2 | CollectionOffer | undefined> => {
+    // Single offers carry no slug, so only a chain-wide pause applies to them
+    assertNotPaused(seaport.chain, params.type === 'single' ? '' : params.collectionSlug);
+
     // Enforce minimum expiration time of 11 minutes from now
     const currentTime = Math.floor(Date.now() / 1000);
     const minExpirationTime = currentTime + MIN_EXPIRATION_TIME_SECONDS;
     const adjustedExpirationTime = Math.max(expirationTime, minExpirationTime);
-    const currency = getCurrencyFromAddress(paymentTokenAddress);
+    const currency = getCurrencyFromAddress(
+        paymentTokenAddress,
+        getChainIdFromChain(seaport.chain)
+    );
 
     // Build log message based on offer type
     let logDescription: string;
@@ -115,6 +124,12 @@ export const createOfferBase = async (
                   : 'trait offer';
         throw new Error(`Failed to create ${offerTypeName}`);
     }
+    // Single offers carry no slug, so the offers of every collection of the chain are refetched
+    invalidateOrderBook(
+        seaport.chain,
+        'offers',
+        params.type === 'single' ? undefined : params.collectionSlug
+    );
 
     const quantityText = params.type !== 'single' ? ` (quantity: ${params.quantity || 1})` : '';
     logger.info(
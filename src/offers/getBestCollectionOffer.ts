@@ -1,8 +1,11 @@
-import { getAddress, formatEther } from 'ethers';
+import { formatEther } from 'ethers';
 import { OpenSeaSDK, Offer } from 'opensea-js';
 
-import { withRateLimitRetry } from '../utils/ratelimit.js';
+import { isExcludedAddress } from '../utils/counterparties.js';
+import { normalizeOffers } from '../prices/index.js';
+import { filterByOfferer, getOfferBook } from '../orderbook/index.js';
 import { getOfferQuantity } from './utils.js';
+import { findCompetingOffer } from './offerValidity.js';
 import { logger } from '../utils/logger.js';
 
 /**
@@ -12,7 +15,7 @@ import { logger } from '../utils/logger.js';
  * @param collectionSlug The collection slug
  * @param offerer Optional offerer address to filter by
  * @param maxPrice Optional max price - if provided, single token offers above this are ignored
- * @param next Optional pagination token
+ * @param excludeOfferers Optional offerer addresses whose offers are ignored, besides the ignored addresses
  * @returns The best offer to compete with, or undefined if none found
  */
 export const getBestCollectionOffer = async (
@@ -20,22 +23,19 @@ export const getBestCollectionOffer = async (
     collectionSlug: string,
     offerer?: string,
     maxPrice?: bigint,
-    next?: string
+    excludeOfferers?: string[]
 ): Promise<Offer | undefined> => {
-    const offersResp = await withRateLimitRetry(() =>
-        seaport.api.getAllOffers(collectionSlug, 100, next)
-    );
+    const book = await getOfferBook(seaport, collectionSlug);
 
-    // Filter and separate offers
+    // Filter and separate offers, priced in ETH so maxPrice applies to all currencies
     const validOffers: Offer[] = [];
+    const offers = await normalizeOffers(filterByOfferer(book.offers, offerer));
 
-    offersResp.offers.forEach((o) => {
-        const matchesOfferer = offerer
-            ? getAddress(o.protocol_data.parameters.offerer).toLowerCase() === offerer.toLowerCase()
-            : true;
+    offers.forEach((o) => {
+        const isExcluded = isExcludedAddress(o.protocol_data.parameters.offerer, excludeOfferers);
 
         const priceValue = o.price.value;
-        if (!priceValue || priceValue === '0' || !matchesOfferer) return;
+        if (!priceValue || priceValue === '0' || isExcluded) return;
 
         // Filter by maxPrice if provided
         if (maxPrice) {
@@ -52,32 +52,12 @@ export const getBestCollectionOffer = async (
         validOffers.push(o);
     });
 
-    // Get the best offer from this page (highest price)
-    const bestOffer = getBestOfferFromList(validOffers);
-
-    // If there are more pages, recursively check and compare
-    if (offersResp.next) {
-        const nextOffer = await getBestCollectionOffer(
-            seaport,
-            collectionSlug,
-            offerer,
-            maxPrice,
-            offersResp.next
-        );
-        if (nextOffer && bestOffer) {
-            const currentPrice =
-                BigInt(bestOffer.price.value) / BigInt(getOfferQuantity(bestOffer));
-            const nextPrice = BigInt(nextOffer.price.value) / BigInt(getOfferQuantity(nextOffer));
-            return nextPrice > currentPrice ? nextOffer : bestOffer;
-        }
-        return nextOffer || bestOffer;
-    }
-
-    return bestOffer;
+    // Get the best offer (highest price)
+    return await getBestOfferFromList(validOffers);
 };
 
-// Helper function to get the best offer from a list
-function getBestOfferFromList(offers: Offer[]): Offer | undefined {
+// Helper function to get the best offer worth competing with from a list
+async function getBestOfferFromList(offers: Offer[]): Promise<Offer | undefined> {
     if (offers.length === 0) return undefined;
 
     const filteredOffers = [...offers];
@@ -91,5 +71,5 @@ function getBestOfferFromList(offers: Offer[]): Offer | undefined {
         return pricePerItemA > pricePerItemB ? -1 : pricePerItemA < pricePerItemB ? 1 : 0;
     });
 
-    return filteredOffers[0];
+    return await findCompetingOffer(filteredOffers);
 }
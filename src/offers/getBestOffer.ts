@@ -1,16 +1,18 @@
-import { getAddress } from 'ethers';
 import { OpenSeaSDK, Offer } from 'opensea-js';
 
-import { withRateLimitRetry } from '../utils/ratelimit.js';
+import { isExcludedAddress } from '../utils/counterparties.js';
+import { normalizeOffers } from '../prices/index.js';
+import { filterByOfferer, getOfferBook } from '../orderbook/index.js';
 import { sumOfferEndAmounts } from './utils.js';
+import { findCompetingOffer } from './offerValidity.js';
 
 /**
- * Gets the best (highest) offer for a collection
+ * Gets the best (highest) offer for a collection, skipping offers about to expire or unfunded
  * @param seaport The OpenSea SDK instance
  * @param collectionSlug The collection slug
  * @param tokenId Optional token ID to filter by
  * @param offerer Optional offerer address to filter by
- * @param next Optional pagination token
+ * @param excludeOfferers Optional offerer addresses whose offers are ignored, besides the ignored addresses
  * @returns The best offer or undefined if none found
  */
 export const getBestOffer = async (
@@ -18,25 +20,21 @@ export const getBestOffer = async (
     collectionSlug: string,
     tokenId?: string,
     offerer?: string,
-    next?: string
+    excludeOfferers?: string[]
 ): Promise<Offer | undefined> => {
-    const offersResp = await withRateLimitRetry(() =>
-        seaport.api.getAllOffers(collectionSlug, 100, next)
-    );
+    const book = await getOfferBook(seaport, collectionSlug);
 
-    // Get all offers matching our criteria
-    const filteredOffers = offersResp.offers.filter((o) => {
-        const matchesToken = tokenId
-            ? o.protocol_data.parameters.consideration.some(
-                  (c) => c.identifierOrCriteria == tokenId
-              )
-            : true;
-        const matchesOfferer = offerer
-            ? getAddress(o.protocol_data.parameters.offerer).toLowerCase() === offerer.toLowerCase()
-            : true;
+    // Get all offers matching our criteria, priced in ETH
+    const candidates = filterByOfferer(
+        tokenId ? book.byToken.get(tokenId) || [] : book.offers,
+        offerer
+    );
+    const offers = await normalizeOffers(candidates);
+    const filteredOffers = offers.filter((o) => {
+        const isExcluded = isExcludedAddress(o.protocol_data.parameters.offerer, excludeOfferers);
 
         const priceValue = o.price.value;
-        return priceValue && priceValue !== '0' && matchesToken && matchesOfferer;
+        return priceValue && priceValue !== '0' && !isExcluded;
     });
 
     // Pick the highest (best) offer
@@ -45,20 +43,5 @@ export const getBestOffer = async (
         const priceB = BigInt(b.price.value) / sumOfferEndAmounts(b);
         return priceA > priceB ? -1 : priceA < priceB ? 1 : 0;
     });
-    let offer = filteredOffers[0];
-
-    // If there are more pages, recursively check and compare
-    let nextOffer: Offer | undefined;
-    if (offersResp.next) {
-        nextOffer = await getBestOffer(seaport, collectionSlug, tokenId, offerer, offersResp.next);
-        if (
-            !offer ||
-            (nextOffer &&
-                BigInt(nextOffer.price.value) / sumOfferEndAmounts(nextOffer) >
-                    BigInt(offer.price.value) / sumOfferEndAmounts(offer))
-        ) {
-            return nextOffer;
-        }
-    }
-    return offer;
+    return await findCompetingOffer(filteredOffers);
 };
@@ -1,8 +1,10 @@
-import { getAddress } from 'ethers';
 import { OpenSeaSDK, Offer } from 'opensea-js';
 
-import { withRateLimitRetry } from '../utils/ratelimit.js';
+import { isExcludedAddress } from '../utils/counterparties.js';
+import { normalizeOffers } from '../prices/index.js';
+import { filterByOfferer, getOfferBook } from '../orderbook/index.js';
 import { getOfferQuantity } from './utils.js';
+import { findCompetingOffer } from './offerValidity.js';
 
 /**
  * Gets the best (highest) trait offer for a specific trait
@@ -11,7 +13,7 @@ import { getOfferQuantity } from './utils.js';
  * @param traitType The trait type
  * @param traitValue The trait value
  * @param offerer Optional offerer address to filter by
- * @param next Optional pagination token
+ * @param excludeOfferers Optional offerer addresses whose offers are ignored, besides the ignored addresses
  * @returns The best trait offer or undefined if none found
  */
 export const getBestTraitOffer = async (
@@ -20,26 +22,18 @@ export const getBestTraitOffer = async (
     traitType: string,
     traitValue: string,
     offerer?: string,
-    next?: string
+    excludeOfferers?: string[]
 ): Promise<Offer | undefined> => {
-    const offersResp = await withRateLimitRetry(() =>
-        seaport.api.getAllOffers(collectionSlug, 100, next)
-    );
+    const book = await getOfferBook(seaport, collectionSlug);
 
-    // Filter for trait offers matching the specific trait
-    const filteredOffers = offersResp.offers.filter((o) => {
-        // Trait offers have criteria with type and value
-        const matchesTrait =
-            o.criteria &&
-            o.criteria.trait &&
-            o.criteria.trait.type === traitType &&
-            o.criteria.trait.value === traitValue;
-        const matchesOfferer = offerer
-            ? getAddress(o.protocol_data.parameters.offerer).toLowerCase() === offerer.toLowerCase()
-            : true;
+    // Trait offers matching the specific trait, priced in ETH
+    const candidates = filterByOfferer(book.byTrait.get(traitType)?.get(traitValue) || [], offerer);
+    const offers = await normalizeOffers(candidates);
+    const filteredOffers = offers.filter((o) => {
+        const isExcluded = isExcludedAddress(o.protocol_data.parameters.offerer, excludeOfferers);
 
         const priceValue = o.price.value;
-        return priceValue && priceValue !== '0' && matchesTrait && matchesOfferer;
+        return priceValue && priceValue !== '0' && !isExcluded;
     });
 
     // Pick the highest (best) offer by price per item
@@ -50,28 +44,5 @@ export const getBestTraitOffer = async (
         const pricePerItemB = BigInt(b.price.value) / BigInt(quantityB);
         return pricePerItemA > pricePerItemB ? -1 : pricePerItemA < pricePerItemB ? 1 : 0;
     });
-    let offer = filteredOffers[0];
-
-    // If there are more pages, recursively check and compare
-    let nextOffer: Offer | undefined;
-    if (offersResp.next) {
-        nextOffer = await getBestTraitOffer(
-            seaport,
-            collectionSlug,
-            traitType,
-            traitValue,
-            offerer,
-            offersResp.next
-        );
-        if (nextOffer) {
-            const quantity = getOfferQuantity(offer);
-            const nextQuantity = getOfferQuantity(nextOffer);
-            const pricePerItem = BigInt(offer.price.value) / BigInt(quantity);
-            const nextPricePerItem = BigInt(nextOffer.price.value) / BigInt(nextQuantity);
-            if (!offer || nextPricePerItem > pricePerItem) {
-                return nextOffer;
-            }
-        }
-    }
-    return offer;
+    return await findCompetingOffer(filteredOffers);
 };
@@ -0,0 +1,41 @@
+import { OpenSeaSDK, Offer } from 'opensea-js';
+
+import { OfferCollection, inferOfferType } from '../collections/types.js';
+import { getAllOffers } from './getAllOffers.js';
+import { getAllCollectionOffers } from './getAllCollectionOffers.js';
+import { getAllTraitOffers } from './getAllTraitOffers.js';
+
+/**
+ * Gets all offers made by an offerer for an offer collection entry
+ * @param c The offer collection configuration
+ * @param seaport The OpenSea SDK instance
+ * @param offerer The offerer address
+ * @returns Array of the offerer's offers matching the entry's offer type
+ */
+export const getOffersForCollection = async (
+    c: OfferCollection,
+    seaport: OpenSeaSDK,
+    offerer: string
+): Promise<Offer[]> => {
+    // Infer offer type from configuration
+    const offerType = inferOfferType(c);
+
+    if (offerType === 'collection') {
+        return await getAllCollectionOffers(seaport, c.collectionSlug, offerer);
+    }
+    if (offerType === 'trait' && c.trait) {
+        return await getAllTraitOffers(
+            seaport,
+            c.collectionSlug,
+            c.trait.traitType,
+            c.trait.value,
+            offerer
+        );
+    }
+
+    // Single token offer
+    if (!c.tokenId) {
+        throw new Error(`tokenId is required for single token offers`);
+    }
+    return await getAllOffers(seaport, c.collectionSlug, c.tokenId, offerer);
+};
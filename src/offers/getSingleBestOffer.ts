@@ -1,8 +1,11 @@
 import { OpenSeaSDK, Offer, OrderSide } from 'opensea-js';
 
 import { withRateLimitRetry, withRetry } from '../utils/ratelimit.js';
+import { isExcludedAddress } from '../utils/counterparties.js';
+import { normalizeOffers } from '../prices/index.js';
 import { orderV2ToOffer } from './orderV2ToOffer.js';
 import { getBestOffer } from './getBestOffer.js';
+import { findCompetingOffer } from './offerValidity.js';
 
 /**
  * Gets the best offer for a specific token
@@ -10,22 +13,24 @@ import { getBestOffer } from './getBestOffer.js';
  * @param collectionSlug The collection slug
  * @param tokenAddress The token contract address
  * @param tokenId The token ID
+ * @param excludeOfferers Optional offerer addresses whose offers are ignored, besides the ignored addresses
  * @returns The best offer or undefined if none found
  */
 export const getSingleBestOffer = async (
     seaport: OpenSeaSDK,
     collectionSlug: string,
     tokenAddress: string,
-    tokenId: string
+    tokenId: string,
+    excludeOfferers?: string[]
 ): Promise<Offer | undefined> => {
     try {
-        return await getBestOfferFromOrders(seaport, tokenAddress, tokenId);
+        return await getBestOfferFromOrders(seaport, tokenAddress, tokenId, excludeOfferers);
     } catch (error) {
         if (
             error instanceof Error &&
             error.message.includes('Sorting by price is only supported for a single token')
         ) {
-            return await getBestOffer(seaport, collectionSlug, tokenId);
+            return await getBestOffer(seaport, collectionSlug, tokenId, undefined, excludeOfferers);
         }
 
         throw error;
@@ -36,7 +41,8 @@ export const getSingleBestOffer = async (
 const getBestOfferFromOrders = async (
     seaport: OpenSeaSDK,
     tokenAddress: string,
-    tokenId: string
+    tokenId: string,
+    excludeOfferers?: string[]
 ): Promise<Offer | undefined> => {
     // Wrap with withRetry to handle transient errors like JSON parsing failures,
     // then withRateLimitRetry to handle rate limits
@@ -58,5 +64,13 @@ const getBestOfferFromOrders = async (
         return undefined;
     }
 
-    return orderV2ToOffer(orderResp.orders[0], seaport.chain);
+    // Orders are sorted by ETH price, so the first valid one we can price in ETH is the best
+    const offers = await normalizeOffers(
+        await Promise.all(
+            orderResp.orders
+                .filter((o) => !isExcludedAddress(o.maker.address, excludeOfferers))
+                .map((o) => orderV2ToOffer(o, seaport.chain))
+        )
+    );
+    return await findCompetingOffer(offers);
 };
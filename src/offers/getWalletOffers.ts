@@ -0,0 +1,38 @@
+import { AssetEventType, OpenSeaSDK, Offer } from 'opensea-js';
+
+import { getAccountCollectionSlugs } from '../collections/getAccountCollectionSlugs.js';
+import { MAX_ORDER_DURATION_SECONDS } from '../expiration/expirationPolicy.js';
+import { getAllOffers } from './getAllOffers.js';
+
+const OFFER_EVENT_TYPES = [
+    AssetEventType.OFFER,
+    AssetEventType.COLLECTION_OFFER,
+    AssetEventType.TRAIT_OFFER,
+];
+
+/**
+ * Gets every active offer of the wallet on the chain of the OpenSea SDK instance
+ * Collections are discovered from the wallet's offer events, so offers that match no offer entry,
+ * e.g. left behind by removed entries or made manually, are found too.
+ * @param seaport The OpenSea SDK instance
+ * @param owner The wallet owner address
+ * @param collectionSlugs Collections to include even without recent offer events
+ * @returns Map of the wallet's active offers by collection slug
+ */
+export const getWalletOffers = async (
+    seaport: OpenSeaSDK,
+    owner: string,
+    collectionSlugs: string[] = []
+): Promise<Map<string, Offer[]>> => {
+    const after = Math.floor(Date.now() / 1000) - MAX_ORDER_DURATION_SECONDS;
+    const slugs = new Set(collectionSlugs);
+    for (const eventType of OFFER_EVENT_TYPES) {
+        await getAccountCollectionSlugs(seaport, owner, eventType, after, undefined, slugs);
+    }
+
+    const offersBySlug = new Map<string, Offer[]>();
+    for (const slug of slugs) {
+        offersBySlug.set(slug, await getAllOffers(seaport, slug, undefined, owner));
+    }
+    return offersBySlug;
+};
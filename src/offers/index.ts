@@ -7,21 +7,43 @@ export { getSingleBestOffer } from './getSingleBestOffer.js';
 export { getBestCollectionOffer } from './getBestCollectionOffer.js';
 export { getBestTraitOffer } from './getBestTraitOffer.js';
 export { getAllOffers } from './getAllOffers.js';
+export { getWalletOffers } from './getWalletOffers.js';
 export { getAllCollectionOffers } from './getAllCollectionOffers.js';
 export { getAllTraitOffers } from './getAllTraitOffers.js';
+export { getOffersForCollection } from './getOffersForCollection.js';
+export { cancelOffer } from './cancelOffer.js';
 export { cancelRedundantOffers } from './cancelRedundantOffers.js';
+export { reconcileOffers } from './reconcileOffers.js';
+export { trackOfferFills, loadOfferFills, setFillsFilePath, type OfferFill } from './offerFills.js';
+export {
+    initializeOfferValidity,
+    findCompetingOffer,
+    type OfferValidityOptions,
+} from './offerValidity.js';
 export { orderV2ToOffer } from './orderV2ToOffer.js';
 export {
     sumOfferEndAmounts,
     getOfferQuantity,
+    getOfferRemainingQuantity,
     getOfferType,
     getOfferPricePerItem,
-    deriveExpirationTime,
+    getOfferPaymentToken,
     DEFAULT_PRICE_DECIMALS,
 } from './utils.js';
 export { monitorOffer } from './monitorOffer.js';
+export {
+    refreshOfferBudgets,
+    fitOfferToBudget,
+    reserveOfferBudget,
+    releaseOfferExposure,
+    getChainExposure,
+    getEntryExposure,
+    type OfferBudget,
+} from './offerBudget.js';
 export {
     isETHOrWETH,
+    isListingInETH,
+    isOfferInETH,
     getPaymentTokenAddress,
     getCurrencyFromAddress,
     ETH_PAYMENT_TOKEN,
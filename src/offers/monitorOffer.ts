@@ -1,8 +1,9 @@
 import { formatEther, getAddress, parseEther } from 'ethers';
-import { OpenSeaSDK } from 'opensea-js';
+import { CollectionOffer, OpenSeaSDK, Offer } from 'opensea-js';
 
-import { OfferCollection, inferOfferType } from '../collections/types.js';
+import { OfferCollection, OfferType, inferOfferType } from '../collections/types.js';
 import { logger } from '../utils/logger.js';
+import { getOurAddresses, isOurAddress } from '../utils/counterparties.js';
 import {
     getBestOffer,
     getSingleBestOffer,
@@ -13,12 +14,21 @@ import {
     createTraitOffer,
     sumOfferEndAmounts,
     getOfferQuantity,
-    deriveExpirationTime,
+    getOfferPricePerItem,
     DEFAULT_PRICE_DECIMALS,
 } from './index.js';
-import { isETHOrWETH, getPaymentTokenAddress } from './paymentTokens.js';
-
-const DEFAULT_EXPIRATION_TIME = 5 * 30 * 24 * 60 * 60; // 5 months
+import { isETHOrWETH, isOfferInETH, getPaymentTokenAddress } from './paymentTokens.js';
+import {
+    OfferBudget,
+    fitOfferToBudget,
+    releaseOfferExposure,
+    reserveOfferBudget,
+} from './offerBudget.js';
+import { cancelOffer } from './cancelOffer.js';
+import { getOffersForCollection } from './getOffersForCollection.js';
+import { resolveOfferPriceBounds } from '../collections/priceBounds.js';
+import { guardOfferPrice } from '../collections/crossGuard.js';
+import { deriveExpirationTime, getExpirationPolicy } from '../expiration/index.js';
 
 /**
  * Calculates the price increment based on the number of decimals
@@ -45,31 +55,110 @@ function roundToDecimals(price: bigint, decimals: number): bigint {
 }
 
 /**
- * Monitors a specific NFT collection and creates/updates offers as needed
+ * Gets the best offer from everyone but us and our friendly wallets
+ * @param c The offer collection configuration
+ * @param seaport The OpenSea SDK instance
+ * @param offerType The offer type
+ * @param owner The wallet owner
+ * @returns The best competing offer or undefined if none found
+ */
+const getNextOffer = async (
+    c: OfferCollection,
+    seaport: OpenSeaSDK,
+    offerType: OfferType,
+    owner: string
+): Promise<Offer | undefined> => {
+    if (offerType === 'collection') {
+        return await getBestCollectionOffer(
+            seaport,
+            c.collectionSlug,
+            undefined,
+            c.maxPrice,
+            getOurAddresses(owner)
+        );
+    }
+    if (offerType === 'trait' && c.trait) {
+        return await getBestTraitOffer(
+            seaport,
+            c.collectionSlug,
+            c.trait.traitType,
+            c.trait.value,
+            undefined,
+            getOurAddresses(owner)
+        );
+    }
+    return c.shouldCompareToRest
+        ? await getBestOffer(
+              seaport,
+              c.collectionSlug,
+              undefined,
+              undefined,
+              getOurAddresses(owner)
+          )
+        : await getSingleBestOffer(
+              seaport,
+              c.collectionSlug,
+              c.tokenAddress,
+              c.tokenId!,
+              getOurAddresses(owner)
+          );
+};
+
+/**
+ * Gets the price to lower our top offer to when it beats the next competing offer by more
+ * than the configured number of increments
+ * @param c The offer collection configuration
+ * @param seaport The OpenSea SDK instance
+ * @param offerType The offer type
+ * @param ourPrice The price per item of our top offer
+ * @param owner The wallet owner
+ * @returns The lowered price per item, or undefined if our offer is not overpaying
+ */
+const getLoweredOfferPrice = async (
+    c: OfferCollection,
+    seaport: OpenSeaSDK,
+    offerType: OfferType,
+    ourPrice: bigint,
+    owner: string
+): Promise<bigint | undefined> => {
+    const nextOffer = await getNextOffer(c, seaport, offerType, owner);
+
+    // Beat the next offer by one increment, but never go below the default price
+    const priceIncrement = getPriceIncrement(c.priceDecimals || DEFAULT_PRICE_DECIMALS);
+    let price = nextOffer ? getOfferPricePerItem(nextOffer) + priceIncrement : c.defaultPrice;
+    if (price < c.defaultPrice) {
+        price = c.defaultPrice;
+    }
+
+    const threshold = BigInt(c.lowerAfterIncrements ?? 1) * priceIncrement;
+    if (ourPrice - price <= threshold) {
+        return undefined;
+    }
+    return price;
+};
+
+/**
+ * Maintains our top offer of an entry, outbidding the best competing offer within the bounds
  * @param c The offer collection configuration
  * @param seaport The OpenSea SDK instance
  * @param chainId The chain ID for the collection
  * @param owner The wallet owner
  * @param dryRun If true, skip actual offer creation
+ * @param budget Optional WETH budget of the chain, used to shrink or skip unfundable offers
+ * @param offerType The offer type
+ * @param logPrefix Description of the offer for logging
+ * @returns The top bid price per item after this round, used to price the lower tiers
  */
-export const monitorOffer = async (
+const monitorTopOffer = async (
     c: OfferCollection,
     seaport: OpenSeaSDK,
     chainId: number,
     owner: string,
-    dryRun: boolean = false
-) => {
-    // Infer offer type from configuration
-    const offerType = inferOfferType(c);
-    const logPrefix =
-        offerType === 'collection'
-            ? `collection offer for ${c.collectionSlug}`
-            : offerType === 'trait' && c.trait
-              ? `trait offer for ${c.collectionSlug} (${c.trait.traitType}: ${c.trait.value})`
-              : `single token offer for ${c.collectionSlug} (tokenId=${c.tokenId})`;
-
-    logger.debug(`Checking ${logPrefix} ...`);
-
+    dryRun: boolean,
+    budget: OfferBudget | undefined,
+    offerType: OfferType,
+    logPrefix: string
+): Promise<bigint> => {
     // Get the best offer based on offer type
     let bestOffer;
     if (offerType === 'collection') {
@@ -91,27 +180,29 @@ export const monitorOffer = async (
             : await getSingleBestOffer(seaport, c.collectionSlug, c.tokenAddress, c.tokenId);
     }
 
+    // Our lower tiers never count as the top offer
+    if (bestOffer && c.tiers?.some((t) => t.orderHash === bestOffer!.order_hash)) {
+        bestOffer = await getNextOffer(c, seaport, offerType, owner);
+    }
+
     let price: bigint;
     let expirationTime: number;
     let paymentCurrency: string = 'WETH'; // Default to WETH (ETH not supported for offers on some chains)
+    let overpricedOffer: Offer | undefined; // Our own offer to replace with a lower one
+    let topBid = c.defaultPrice; // Best offer on the market, ours included
 
     if (!bestOffer || !bestOffer.protocol_data || !bestOffer.protocol_data.parameters) {
         logger.debug(`Did not find an offer for ${logPrefix} ...`);
         // If no best offer, create a new offer with the starting price
         price = c.defaultPrice;
-        expirationTime = deriveExpirationTime(undefined, DEFAULT_EXPIRATION_TIME);
+        expirationTime = deriveExpirationTime(getExpirationPolicy(c.expiration));
     } else {
-        // Use the previous offer's expiration time
+        // Expire with the best offer if the policy inherits it
         const previousExpirationTime = Number(bestOffer.protocol_data.parameters.endTime);
-        expirationTime = deriveExpirationTime(previousExpirationTime, DEFAULT_EXPIRATION_TIME);
-        // Check if currency is ETH or WETH
-        if (!isETHOrWETH(bestOffer.price.currency)) {
-            logger.error(
-                `Best offer for ${logPrefix} is not in ETH or WETH (currency: ${bestOffer.price.currency}). Skipping...`
-            );
-            return;
-        }
-
+        expirationTime = deriveExpirationTime(
+            getExpirationPolicy(c.expiration),
+            previousExpirationTime
+        );
         // Always use WETH for offers (ETH not supported on some chains)
         // If best offer is in ETH, we'll still use WETH but match the price
         paymentCurrency = 'WETH';
@@ -127,91 +218,141 @@ export const monitorOffer = async (
         } else {
             price = BigInt(bestOffer.price.value) / sumOfferEndAmounts(bestOffer);
         }
+        topBid = price;
 
         const offerer = getAddress(bestOffer.protocol_data.parameters.offerer);
+        if (offerer.toLowerCase() !== owner.toLowerCase() && isOurAddress(offerer, owner)) {
+            logger.debug(
+                `Friendly wallet ${offerer} has the highest offer for ${logPrefix} at price ${formatEther(price)} ${paymentCurrency} per item. Skipping...`
+            );
+            return topBid;
+        }
         if (offerer.toLowerCase() === owner.toLowerCase()) {
+            const quantityText =
+                offerType === 'collection' || offerType === 'trait'
+                    ? ` (quantity: ${bestOfferQuantity})`
+                    : '';
+            const loweredPrice = c.shouldLower
+                ? await getLoweredOfferPrice(c, seaport, offerType, price, owner)
+                : undefined;
+            if (loweredPrice === undefined) {
+                logger.debug(
+                    `Already have the highest offer for ${logPrefix} at price ${formatEther(price)} ${paymentCurrency} per item${quantityText}. Skipping...`
+                );
+                return topBid;
+            }
+
+            logger.info(
+                `Our ${logPrefix} at ${formatEther(price)} ${paymentCurrency} per item${quantityText} is overpaying the next offer. Lowering it to ${formatEther(loweredPrice)} ${paymentCurrency} ...`
+            );
+            overpricedOffer = bestOffer;
+            price = loweredPrice;
+            topBid = loweredPrice;
+        } else {
             const quantityText =
                 offerType === 'collection' || offerType === 'trait'
                     ? ` (quantity: ${bestOfferQuantity})`
                     : '';
             logger.debug(
-                `Already have the highest offer for ${logPrefix} at price ${formatEther(price)} ${paymentCurrency} per item${quantityText}. Skipping...`
+                `Found best offer for ${logPrefix} at ${formatEther(price)} ${paymentCurrency} per item${quantityText}`
             );
-            return;
-        }
 
-        const quantityText =
-            offerType === 'collection' || offerType === 'trait'
-                ? ` (quantity: ${bestOfferQuantity})`
-                : '';
-        logger.debug(
-            `Found best offer for ${logPrefix} at ${formatEther(price)} ${paymentCurrency} per item${quantityText}`
-        );
-
-        if (price < c.defaultPrice) {
-            // If best offer is below our default price, use default price
-            price = c.defaultPrice;
-        } else if (price < c.maxPrice) {
-            // Add one increment to beat the offer, but don't exceed max price
-            const priceIncrement = getPriceIncrement(c.priceDecimals || DEFAULT_PRICE_DECIMALS);
-            const newPrice = price + priceIncrement;
-            price = newPrice > c.maxPrice ? c.maxPrice : newPrice;
-        } else {
-            // Check if our offer is already at max price
-            let ourOffer;
-            if (offerType === 'collection') {
-                ourOffer = await getBestCollectionOffer(seaport, c.collectionSlug, owner);
-            } else if (offerType === 'trait' && c.trait) {
-                ourOffer = await getBestTraitOffer(
-                    seaport,
-                    c.collectionSlug,
-                    c.trait.traitType,
-                    c.trait.value,
-                    owner
-                );
+            if (price < c.defaultPrice) {
+                // If best offer is below our default price, use default price
+                price = c.defaultPrice;
+            } else if (price < c.maxPrice) {
+                // Add one increment to beat the offer, but don't exceed max price
+                const priceIncrement = getPriceIncrement(c.priceDecimals || DEFAULT_PRICE_DECIMALS);
+                const newPrice = price + priceIncrement;
+                price = newPrice > c.maxPrice ? c.maxPrice : newPrice;
             } else {
-                ourOffer = await getBestOffer(seaport, c.collectionSlug, c.tokenId, owner);
-            }
+                // Check if our offer is already at max price
+                let ourOffer;
+                if (offerType === 'collection') {
+                    ourOffer = await getBestCollectionOffer(seaport, c.collectionSlug, owner);
+                } else if (offerType === 'trait' && c.trait) {
+                    ourOffer = await getBestTraitOffer(
+                        seaport,
+                        c.collectionSlug,
+                        c.trait.traitType,
+                        c.trait.value,
+                        owner
+                    );
+                } else {
+                    ourOffer = await getBestOffer(seaport, c.collectionSlug, c.tokenId, owner);
+                }
 
-            // Calculate price per item for our offer
-            let offeredPrice: bigint;
-            if (ourOffer) {
-                if (offerType === 'collection' || offerType === 'trait') {
-                    const quantity = getOfferQuantity(ourOffer);
-                    const totalPrice = BigInt(ourOffer.price.value);
-                    offeredPrice = totalPrice / BigInt(quantity);
+                // Calculate price per item for our offer
+                let offeredPrice: bigint;
+                if (ourOffer) {
+                    if (offerType === 'collection' || offerType === 'trait') {
+                        const quantity = getOfferQuantity(ourOffer);
+                        const totalPrice = BigInt(ourOffer.price.value);
+                        offeredPrice = totalPrice / BigInt(quantity);
+                    } else {
+                        offeredPrice = BigInt(ourOffer.price.value) / sumOfferEndAmounts(ourOffer);
+                    }
                 } else {
-                    offeredPrice = BigInt(ourOffer.price.value) / sumOfferEndAmounts(ourOffer);
+                    offeredPrice = 0n;
                 }
-            } else {
-                offeredPrice = 0n;
-            }
-            const ourOfferCurrency = ourOffer ? ourOffer.price.currency : paymentCurrency;
-            if (
-                ourOffer &&
-                isETHOrWETH(ourOfferCurrency) &&
-                isETHOrWETH(paymentCurrency) &&
-                offeredPrice >= c.maxPrice
-            ) {
-                logger.debug(
-                    `Our ${logPrefix} is already at price ${formatEther(offeredPrice)} ${ourOfferCurrency} which is equal or higher than max price ${formatEther(c.maxPrice)} ${paymentCurrency}. Skipping...`
-                );
-                return;
+                const ourOfferCurrency = ourOffer ? ourOffer.price.currency : paymentCurrency;
+                if (
+                    ourOffer &&
+                    isOfferInETH(ourOffer) &&
+                    isETHOrWETH(getPaymentTokenAddress(paymentCurrency, chainId), chainId) &&
+                    offeredPrice >= c.maxPrice
+                ) {
+                    logger.debug(
+                        `Our ${logPrefix} is already at price ${formatEther(offeredPrice)} ${ourOfferCurrency} which is equal or higher than max price ${formatEther(c.maxPrice)} ${paymentCurrency}. Skipping...`
+                    );
+                    return topBid;
+                }
+                price = c.maxPrice;
             }
-            price = c.maxPrice;
         }
     }
 
+    // Never bid at or above our own listings of the collection
+    const guardedPrice = await guardOfferPrice(c, price, seaport, owner);
+    if (guardedPrice === undefined) {
+        return topBid;
+    }
+    price = guardedPrice;
+
     // Get payment token address based on currency and chain
     // Use the chain ID to determine the correct payment token
     const paymentTokenAddress = getPaymentTokenAddress(paymentCurrency, chainId);
 
     // Create the appropriate type of offer
-    const quantity = c.quantity || 1; // Default to 1 if not set
+    let quantity = c.quantity || 1; // Default to 1 if not set
+
+    // Never bid for more than is left to acquire
+    if (c.targetQuantity !== undefined && quantity > c.targetQuantity - c.acquired) {
+        quantity = c.targetQuantity - c.acquired;
+        logger.debug(
+            `Acquired ${c.acquired}/${c.targetQuantity} item(s), lowering quantity of ${logPrefix} to ${quantity} ...`
+        );
+    }
 
     // For collection and trait offers, OpenSea validates the per-unit price
     // So we need to round the per-unit price, then multiply by quantity
     const decimals = c.priceDecimals || DEFAULT_PRICE_DECIMALS;
+
+    // Make sure the wallet can fund the offer within the configured budgets
+    let releaseBudget = () => {};
+    if (budget) {
+        quantity = fitOfferToBudget(
+            c,
+            roundToDecimals(price, decimals),
+            quantity,
+            budget,
+            logPrefix
+        );
+        if (quantity === 0) {
+            return topBid;
+        }
+        releaseBudget = reserveOfferBudget(c, roundToDecimals(price, decimals) * BigInt(quantity));
+    }
     let finalPrice: bigint;
     if (offerType === 'collection' || offerType === 'trait') {
         // Round per-unit price to OpenSea increment
@@ -227,44 +368,280 @@ export const monitorOffer = async (
         `Creating ${logPrefix} at ${formatEther(finalPrice)} ${paymentCurrency}${offerType === 'collection' || offerType === 'trait' ? ` (${formatEther(roundToDecimals(price, decimals))} per unit × ${quantity})` : ''} ...`
     );
 
-    if (offerType === 'collection') {
-        await createCollectionOffer(
-            seaport,
-            c.collectionSlug,
-            finalPrice,
-            expirationTime,
-            owner,
-            quantity,
-            paymentTokenAddress,
-            dryRun
-        );
-    } else if (offerType === 'trait' && c.trait) {
-        await createTraitOffer(
-            seaport,
-            c.collectionSlug,
-            c.trait.traitType,
-            c.trait.value,
-            finalPrice,
-            expirationTime,
-            owner,
-            quantity,
-            paymentTokenAddress,
-            dryRun
-        );
-    } else {
-        // Single token offer
-        if (!c.tokenId) {
-            throw new Error(`tokenId is required for single token offers`);
+    try {
+        if (offerType === 'collection') {
+            await createCollectionOffer(
+                seaport,
+                c.collectionSlug,
+                finalPrice,
+                expirationTime,
+                owner,
+                quantity,
+                paymentTokenAddress,
+                dryRun
+            );
+        } else if (offerType === 'trait' && c.trait) {
+            await createTraitOffer(
+                seaport,
+                c.collectionSlug,
+                c.trait.traitType,
+                c.trait.value,
+                finalPrice,
+                expirationTime,
+                owner,
+                quantity,
+                paymentTokenAddress,
+                dryRun
+            );
+        } else {
+            // Single token offer
+            if (!c.tokenId) {
+                throw new Error(`tokenId is required for single token offers`);
+            }
+            await createOffer(
+                seaport,
+                c.tokenAddress,
+                c.tokenId,
+                finalPrice,
+                expirationTime,
+                owner,
+                paymentTokenAddress,
+                dryRun
+            );
+        }
+
+        // Our previous offers stay committed until they are canceled
+        if (!dryRun) {
+            c.exposure += roundToDecimals(price, decimals) * BigInt(quantity);
+        }
+    } finally {
+        releaseBudget();
+    }
+
+    // Cancel the overpaying offer now that the lower one is in place
+    if (overpricedOffer) {
+        await cancelOffer(seaport, c.collectionSlug, overpricedOffer, dryRun);
+        if (!dryRun) {
+            releaseOfferExposure(overpricedOffer, c);
+        }
+    }
+    return price > topBid ? price : topBid;
+};
+
+/**
+ * Maintains the lower price tiers of an entry, each as its own offer at a discount to the top bid
+ * Each tier is repriced whenever the top bid moves, and its previous offer canceled once replaced.
+ * @param c The offer collection configuration
+ * @param seaport The OpenSea SDK instance
+ * @param chainId The chain ID for the collection
+ * @param owner The wallet owner
+ * @param dryRun If true, skip actual offer creation
+ * @param budget Optional WETH budget of the chain, used to shrink or skip unfundable offers
+ * @param offerType The offer type
+ * @param logPrefix Description of the offer for logging
+ * @param topBid The top bid price per item
+ */
+const monitorOfferTiers = async (
+    c: OfferCollection,
+    seaport: OpenSeaSDK,
+    chainId: number,
+    owner: string,
+    dryRun: boolean,
+    budget: OfferBudget | undefined,
+    offerType: OfferType,
+    logPrefix: string,
+    topBid: bigint
+) => {
+    const ourOffers = await getOffersForCollection(c, seaport, owner);
+    ourOffers.sort((a, b) => {
+        const priceA = getOfferPricePerItem(a);
+        const priceB = getOfferPricePerItem(b);
+        return priceA > priceB ? -1 : priceA < priceB ? 1 : 0;
+    });
+    const paymentTokenAddress = getPaymentTokenAddress('WETH', chainId);
+
+    // Items left to acquire besides the top offer
+    let remaining =
+        c.targetQuantity !== undefined
+            ? c.targetQuantity - c.acquired - (c.quantity || 1)
+            : Number.MAX_SAFE_INTEGER;
+
+    for (const [index, tier] of c.tiers!.entries()) {
+        const tierPrefix = `tier ${index + 1} of ${logPrefix}`;
+        try {
+            // After a restart, adopt our offers below the top one in price order
+            let ourOffer = ourOffers.find((o) => o.order_hash === tier.orderHash);
+            if (!ourOffer) {
+                ourOffer = ourOffers
+                    .filter((o) => !c.tiers!.some((t) => t.orderHash === o.order_hash))
+                    .slice(1)
+                    .find((o) => getOfferQuantity(o) === tier.quantity);
+                tier.orderHash = ourOffer?.order_hash;
+            }
+
+            const decimals = tier.priceDecimals || c.priceDecimals || DEFAULT_PRICE_DECIMALS;
+            const maxPrice = tier.maxPrice ?? c.maxPrice;
+            const discountBps = BigInt(Math.round(tier.discountPercent * 100));
+            let price = (topBid * (10000n - discountBps)) / 10000n;
+            if (price > maxPrice) {
+                price = maxPrice;
+            }
+            if (tier.minPrice !== undefined && price < tier.minPrice) {
+                price = tier.minPrice;
+            }
+            price = roundToDecimals(price, decimals);
+            if (price <= 0n || price >= topBid) {
+                logger.debug(
+                    `Price ${formatEther(price)} WETH of ${tierPrefix} is not below the top bid of ${formatEther(topBid)} WETH. Skipping...`
+                );
+                continue;
+            }
+
+            let quantity = Math.min(tier.quantity, Math.max(remaining, 0));
+            remaining -= quantity;
+            if (quantity === 0) {
+                logger.debug(`Nothing left to acquire for ${tierPrefix}. Skipping...`);
+                continue;
+            }
+
+            if (ourOffer && getOfferPricePerItem(ourOffer) === price) {
+                logger.debug(
+                    `Already have ${tierPrefix} at price ${formatEther(price)} WETH per item. Skipping...`
+                );
+                continue;
+            }
+
+            const guardedPrice = await guardOfferPrice(c, price, seaport, owner);
+            if (guardedPrice === undefined) {
+                continue;
+            }
+            price = roundToDecimals(guardedPrice, decimals);
+            if (price <= 0n) {
+                continue;
+            }
+
+            let releaseBudget = () => {};
+            if (budget) {
+                quantity = fitOfferToBudget(c, price, quantity, budget, tierPrefix);
+                if (quantity === 0) {
+                    continue;
+                }
+                releaseBudget = reserveOfferBudget(c, price * BigInt(quantity));
+            }
+
+            logger.debug(
+                `Creating ${tierPrefix} at ${formatEther(price)} WETH per unit × ${quantity} ...`
+            );
+            const expirationTime = deriveExpirationTime(getExpirationPolicy(c.expiration));
+            let created: CollectionOffer | undefined;
+            try {
+                created =
+                    offerType === 'trait' && c.trait
+                        ? await createTraitOffer(
+                              seaport,
+                              c.collectionSlug,
+                              c.trait.traitType,
+                              c.trait.value,
+                              price * BigInt(quantity),
+                              expirationTime,
+                              owner,
+                              quantity,
+                              paymentTokenAddress,
+                              dryRun
+                          )
+                        : await createCollectionOffer(
+                              seaport,
+                              c.collectionSlug,
+                              price * BigInt(quantity),
+                              expirationTime,
+                              owner,
+                              quantity,
+                              paymentTokenAddress,
+                              dryRun
+                          );
+                if (created) {
+                    tier.orderHash = created.order_hash;
+                    tier.exposure += price * BigInt(quantity);
+                }
+            } finally {
+                releaseBudget();
+            }
+            if (!created) {
+                continue;
+            }
+
+            // Cancel the tier's previous offer now that the new one is in place
+            if (ourOffer) {
+                await cancelOffer(seaport, c.collectionSlug, ourOffer, dryRun);
+                releaseOfferExposure(ourOffer, c, tier);
+            }
+        } catch (err) {
+            logger.error(`Error monitoring ${tierPrefix}:`, err);
         }
-        await createOffer(
+    }
+};
+
+/**
+ * Monitors a specific NFT collection and creates/updates offers as needed
+ * @param c The offer collection configuration
+ * @param seaport The OpenSea SDK instance
+ * @param chainId The chain ID for the collection
+ * @param owner The wallet owner
+ * @param dryRun If true, skip actual offer creation
+ * @param budget Optional WETH budget of the chain, used to shrink or skip unfundable offers
+ */
+export const monitorOffer = async (
+    c: OfferCollection,
+    seaport: OpenSeaSDK,
+    chainId: number,
+    owner: string,
+    dryRun: boolean = false,
+    budget?: OfferBudget
+) => {
+    // Infer offer type from configuration
+    const offerType = inferOfferType(c);
+    const logPrefix =
+        offerType === 'collection'
+            ? `collection offer for ${c.collectionSlug}`
+            : offerType === 'trait' && c.trait
+              ? `trait offer for ${c.collectionSlug} (${c.trait.traitType}: ${c.trait.value})`
+              : `single token offer for ${c.collectionSlug} (tokenId=${c.tokenId})`;
+
+    if (c.disabled) {
+        logger.debug(
+            `Target of ${c.targetQuantity} item(s) acquired for ${logPrefix}. Skipping...`
+        );
+        return;
+    }
+
+    logger.debug(`Checking ${logPrefix} ...`);
+
+    // Follow the market when the price bounds are relative
+    if (!(await resolveOfferPriceBounds(c, seaport, owner))) {
+        return;
+    }
+
+    const topBid = await monitorTopOffer(
+        c,
+        seaport,
+        chainId,
+        owner,
+        dryRun,
+        budget,
+        offerType,
+        logPrefix
+    );
+    if (c.tiers) {
+        await monitorOfferTiers(
+            c,
             seaport,
-            c.tokenAddress,
-            c.tokenId,
-            finalPrice,
-            expirationTime,
+            chainId,
             owner,
-            paymentTokenAddress,
-            dryRun
+            dryRun,
+            budget,
+            offerType,
+            logPrefix,
+            topBid
         );
     }
 };
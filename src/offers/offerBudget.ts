@@ -0,0 +1,240 @@
+import { Contract, formatEther, Signer } from 'ethers';
+import { OpenSeaSDK, Offer } from 'opensea-js';
+
+import { OfferCollection, OfferTier } from '../collections/types.js';
+import { logger } from '../utils/logger.js';
+import { withRetry } from '../utils/ratelimit.js';
+import { ERC20_ABI, OPENSEA_CONDUIT_ADDRESS } from '../networks/contracts.js';
+import { getChainTokens } from '../tokens/index.js';
+import { getOffersForCollection } from './getOffersForCollection.js';
+import { getWalletOffers } from './getWalletOffers.js';
+import { getOfferPricePerItem, getOfferRemainingQuantity } from './utils.js';
+
+/**
+ * WETH available to the offers of a chain
+ */
+export type OfferBudget = {
+    balance: bigint; // WETH balance of the wallet
+    allowance: bigint; // WETH allowance of the wallet to the OpenSea conduit
+    limit?: bigint; // Optional max WETH committed to all offers of the chain
+    collections: OfferCollection[]; // Offer collections of the chain, holding their exposure
+    untracked: Record<string, bigint>; // WETH committed to our offers matching no entry, by collection slug
+};
+
+/**
+ * Gets the WETH committed to an offer
+ * @param offer The offer
+ * @returns The price per item times the remaining quantity
+ */
+const getOfferExposure = (offer: Offer): bigint =>
+    getOfferPricePerItem(offer) * BigInt(getOfferRemainingQuantity(offer));
+
+/**
+ * Gets the WETH committed to all offers of an offer collection entry, including its tiers
+ * @param c The offer collection configuration
+ * @returns The summed exposure of the entry's top offer and tiers, plus the WETH held for the
+ * offers being created
+ */
+export const getEntryExposure = (c: OfferCollection): bigint =>
+    (c.tiers || []).reduce((sum, t) => sum + t.exposure, c.exposure + c.reserved);
+
+/**
+ * Gets the WETH committed to all offers of a chain
+ * @param budget The chain's offer budget
+ * @returns The summed exposure of all offer collections of the chain and of our other offers
+ */
+export const getChainExposure = (budget: OfferBudget): bigint =>
+    budget.collections.reduce(
+        (sum, c) => sum + getEntryExposure(c),
+        Object.values(budget.untracked).reduce((sum, e) => sum + e, 0n)
+    );
+
+/**
+ * Gets the WETH committed to all offers of a collection
+ * @param budget The chain's offer budget
+ * @param collectionSlug The collection slug
+ * @returns The summed exposure of the collection's entries and of our other offers on it
+ */
+const getCollectionExposure = (budget: OfferBudget, collectionSlug: string): bigint =>
+    budget.collections
+        .filter((c) => c.collectionSlug === collectionSlug)
+        .reduce((sum, c) => sum + getEntryExposure(c), budget.untracked[collectionSlug] || 0n);
+
+/**
+ * Refreshes the WETH balance, allowance and offer exposure of every chain with offers
+ * The exposure of each offer collection is stored on the collection itself. Every other active
+ * offer of the wallet counts too, since it could still be filled.
+ * @param collections Array of offer collection configurations
+ * @param openSeaClients Record of OpenSea SDK instances by chain
+ * @param signers Record of wallets by chain
+ * @param chainIds Record of chain IDs by chain
+ * @param owner The wallet owner address
+ * @param limits Record of optional WETH budgets by chain
+ * @returns Record of offer budgets by chain
+ */
+export const refreshOfferBudgets = async (
+    collections: OfferCollection[],
+    openSeaClients: Record<string, OpenSeaSDK>,
+    signers: Record<string, Signer>,
+    chainIds: Record<string, number>,
+    owner: string,
+    limits: Record<string, bigint> = {}
+): Promise<Record<string, OfferBudget>> => {
+    // Group collections by chain
+    const collectionsByChain = new Map<string, OfferCollection[]>();
+    for (const collection of collections) {
+        if (!collectionsByChain.has(collection.chain)) {
+            collectionsByChain.set(collection.chain, []);
+        }
+        collectionsByChain.get(collection.chain)!.push(collection);
+    }
+
+    const budgets: Record<string, OfferBudget> = {};
+    for (const [chain, chainCollections] of collectionsByChain.entries()) {
+        const weth = new Contract(
+            getChainTokens(chainIds[chain]).weth.address,
+            ERC20_ABI,
+            signers[chain]
+        );
+        const [balance, allowance] = await Promise.all([
+            withRetry(() => weth.balanceOf(owner)),
+            withRetry(() => weth.allowance(owner, OPENSEA_CONDUIT_ADDRESS)),
+        ]);
+
+        const seaport = openSeaClients[chain];
+        const tracked = new Set<string>();
+        for (const c of chainCollections) {
+            try {
+                const offers = await getOffersForCollection(c, seaport, owner);
+                offers.forEach((o) => tracked.add(o.order_hash));
+
+                // Offers of the tiers count towards their tier, the rest towards the top offer
+                for (const tier of c.tiers || []) {
+                    const tierOffer = offers.find((o) => o.order_hash === tier.orderHash);
+                    tier.exposure = tierOffer ? getOfferExposure(tierOffer) : 0n;
+                }
+                c.exposure = offers
+                    .filter((o) => !c.tiers?.some((t) => t.orderHash === o.order_hash))
+                    .reduce((sum, o) => sum + getOfferExposure(o), 0n);
+            } catch (err) {
+                logger.error(`Error getting offer exposure for ${c.collectionSlug}:`, err);
+            }
+        }
+
+        const untracked: Record<string, bigint> = {};
+        try {
+            const offersBySlug = await getWalletOffers(
+                seaport,
+                owner,
+                chainCollections.map((c) => c.collectionSlug)
+            );
+            for (const [slug, offers] of offersBySlug) {
+                for (const offer of offers.filter((o) => !tracked.has(o.order_hash))) {
+                    untracked[slug] = (untracked[slug] || 0n) + getOfferExposure(offer);
+                }
+            }
+        } catch (err) {
+            logger.error(`Error getting the other offers of the wallet on ${chain}:`, err);
+        }
+
+        budgets[chain] = {
+            balance: BigInt(balance),
+            allowance: BigInt(allowance),
+            limit: limits[chain],
+            collections: chainCollections,
+            untracked,
+        };
+        logger.info(
+            `Offers on ${chain}: ${formatEther(getChainExposure(budgets[chain]))} WETH committed, balance ${formatEther(balance)} WETH, allowance ${formatEther(allowance)} WETH${limits[chain] !== undefined ? `, budget ${formatEther(limits[chain])} WETH` : ''}`
+        );
+    }
+
+    return budgets;
+};
+
+/**
+ * Fits the quantity of a new offer into the WETH still available to the chain and collection
+ * Offers the new one replaces stay committed until they are canceled, since they could still be
+ * filled until then.
+ * @param c The offer collection configuration
+ * @param pricePerItem The price per item of the new offer
+ * @param quantity The desired quantity of the new offer
+ * @param budget The chain's offer budget
+ * @param logPrefix Description of the offer for logging
+ * @returns The quantity that fits, or 0 if the offer should be skipped
+ */
+export const fitOfferToBudget = (
+    c: OfferCollection,
+    pricePerItem: bigint,
+    quantity: number,
+    budget: OfferBudget,
+    logPrefix: string
+): number => {
+    // The wallet cannot fund more than its balance or allowance, whatever the budget
+    let chainLimit = budget.balance < budget.allowance ? budget.balance : budget.allowance;
+    if (budget.limit !== undefined && budget.limit < chainLimit) {
+        chainLimit = budget.limit;
+    }
+    let available = chainLimit - getChainExposure(budget);
+
+    if (c.budget !== undefined) {
+        const collectionAvailable = c.budget - getCollectionExposure(budget, c.collectionSlug);
+        if (collectionAvailable < available) {
+            available = collectionAvailable;
+        }
+    }
+
+    const affordable = available > 0n && pricePerItem > 0n ? available / pricePerItem : 0n;
+    if (affordable >= BigInt(quantity)) {
+        return quantity;
+    }
+
+    if (affordable === 0n) {
+        logger.warn(
+            `Only ${formatEther(available > 0n ? available : 0n)} WETH left for ${logPrefix}, not enough for one item at ${formatEther(pricePerItem)} WETH. Skipping...`
+        );
+        return 0;
+    }
+
+    logger.warn(
+        `Only ${formatEther(available)} WETH left for ${logPrefix}. Shrinking quantity from ${quantity} to ${affordable} ...`
+    );
+    return Number(affordable);
+};
+
+/**
+ * Holds WETH for an offer of an entry until it is created
+ * Entries of a chain are polled concurrently, so the WETH is held as soon as the offer fits the
+ * budget, before the offer is posted, and counted by every other offer fitted in the meantime.
+ * @param c The offer collection configuration
+ * @param amount The WETH committed to the new offer
+ * @returns Releases the WETH, to call once the exposure of the new offer is recorded or it failed
+ */
+export const reserveOfferBudget = (c: OfferCollection, amount: bigint): (() => void) => {
+    c.reserved += amount;
+    let released = false;
+    return () => {
+        if (released) {
+            return;
+        }
+        released = true;
+        // A reload may have replaced the entry while the offer was being created
+        let live = c;
+        while (live.replacedBy) {
+            live = live.replacedBy;
+        }
+        live.reserved = live.reserved > amount ? live.reserved - amount : 0n;
+    };
+};
+
+/**
+ * Frees the WETH of one of our offers once it is canceled
+ * @param offer The canceled offer
+ * @param c The offer collection configuration the offer counted towards
+ * @param tier Optional tier the offer counted towards, the top offer if unset
+ */
+export const releaseOfferExposure = (offer: Offer, c: OfferCollection, tier?: OfferTier) => {
+    const holder = tier ?? c;
+    const exposure = getOfferExposure(offer);
+    holder.exposure = holder.exposure > exposure ? holder.exposure - exposure : 0n;
+};
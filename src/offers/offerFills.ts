@@ -0,0 +1,308 @@
+import fs from 'fs';
+import { formatUnits } from 'ethers';
+import { AssetEvent, AssetEventType, OpenSeaSDK } from 'opensea-js';
+
+import { logger } from '../utils/logger.js';
+import { withRateLimitRetry } from '../utils/ratelimit.js';
+import { OfferCollection, OfferType, inferOfferType } from '../collections/types.js';
+import { getOffersForCollection } from './getOffersForCollection.js';
+import { cancelOffer } from './cancelOffer.js';
+import { MAX_ORDER_DURATION_SECONDS } from '../expiration/expirationPolicy.js';
+
+// Sales can be indexed late, so every check looks back a bit before the previous one
+const SALE_LOOKBACK_SECONDS = 60 * 60; // 1 hour
+
+const OFFER_EVENT_TYPES: Record<string, OfferType> = {
+    [AssetEventType.OFFER]: 'single',
+    [AssetEventType.COLLECTION_OFFER]: 'collection',
+    [AssetEventType.TRAIT_OFFER]: 'trait',
+};
+
+/**
+ * A sale of an NFT to us through one of our offers
+ */
+export type OfferFill = {
+    chain: string;
+    collectionSlug: string;
+    offerType: OfferType;
+    trait?: {
+        traitType: string;
+        value: string;
+    }; // Trait of the filled offer, for trait offers
+    tokenAddress: string;
+    tokenId: string; // Token we acquired
+    quantity: number;
+    price: string; // Total paid, in units of the currency
+    currency: string;
+    orderHash: string;
+    transaction: string;
+    timestamp: number;
+};
+
+type OfferFillsState = {
+    checkedAt: number; // Sales before this timestamp have been processed
+    fills: OfferFill[];
+};
+
+let fillsFilePath = 'data/fills.json';
+
+/**
+ * Sets the file the offer fills are persisted to
+ * @param path Path to the fills file
+ */
+export const setFillsFilePath = (path: string) => {
+    fillsFilePath = path;
+};
+
+/**
+ * Reads the persisted offer fills
+ * @returns The fills state, starting now if nothing was tracked yet
+ */
+const readFillsState = (): OfferFillsState => {
+    if (!fs.existsSync(fillsFilePath)) {
+        return { checkedAt: Math.floor(Date.now() / 1000), fills: [] };
+    }
+    return JSON.parse(fs.readFileSync(fillsFilePath, 'utf-8'));
+};
+
+/**
+ * Gets all events of an account of a given type since a given time
+ * @param seaport The OpenSea SDK instance
+ * @param owner The wallet owner address
+ * @param eventType The event type
+ * @param after Only consider events after this timestamp
+ * @param next Optional pagination token
+ * @param events Accumulated events from previous pages
+ * @returns Array of events
+ */
+const getAccountEvents = async (
+    seaport: OpenSeaSDK,
+    owner: string,
+    eventType: AssetEventType,
+    after: number,
+    next?: string,
+    events: AssetEvent[] = []
+): Promise<AssetEvent[]> => {
+    const eventsResp = await withRateLimitRetry(() =>
+        seaport.api.getEventsByAccount(owner, {
+            event_type: eventType,
+            chain: seaport.chain,
+            after,
+            next,
+        })
+    );
+    events.push(...eventsResp.asset_events);
+
+    // If there are more pages, recursively fetch them
+    if (eventsResp.next) {
+        return await getAccountEvents(seaport, owner, eventType, after, eventsResp.next, events);
+    }
+
+    return events;
+};
+
+/**
+ * Checks if a fill was made through an offer of an offer collection entry
+ * @param fill The offer fill
+ * @param c The offer collection configuration
+ * @returns True if the fill belongs to the entry
+ */
+const matchesOfferFill = (fill: OfferFill, c: OfferCollection): boolean => {
+    const offerType = inferOfferType(c);
+    if (fill.chain !== c.chain || fill.offerType !== offerType) {
+        return false;
+    }
+    if (offerType === 'single') {
+        return (
+            fill.tokenAddress.toLowerCase() === c.tokenAddress.toLowerCase() &&
+            fill.tokenId == c.tokenId
+        );
+    }
+    if (fill.collectionSlug !== c.collectionSlug) {
+        return false;
+    }
+    return (
+        offerType === 'collection' ||
+        (fill.trait?.traitType === c.trait?.traitType && fill.trait?.value === c.trait?.value)
+    );
+};
+
+/**
+ * Counts a fill towards an offer collection entry, disabling the entry once its target is reached
+ * @param c The offer collection configuration
+ * @param fill The offer fill
+ * @returns True if the fill reached the entry's target
+ */
+const applyOfferFill = (c: OfferCollection, fill: OfferFill): boolean => {
+    c.acquired += fill.quantity;
+    if (c.targetQuantity === undefined || c.acquired < c.targetQuantity || c.disabled) {
+        return false;
+    }
+    c.disabled = true;
+    return true;
+};
+
+/**
+ * Restores the acquired quantities of the offer collection entries from the persisted fills
+ * @param collections Array of offer collection configurations
+ */
+export const loadOfferFills = (collections: OfferCollection[]) => {
+    for (const fill of readFillsState().fills) {
+        const c = collections.find((c) => matchesOfferFill(fill, c));
+        if (c && applyOfferFill(c, fill)) {
+            logger.info(
+                `Target of ${c.targetQuantity} item(s) already acquired for ${c.collectionSlug} on ${c.chain}. Disabling the offer entry ...`
+            );
+        }
+    }
+};
+
+/**
+ * Gets the sales of a chain made through our offers since a given time
+ * @param chain The chain name
+ * @param seaport The OpenSea SDK instance of the chain
+ * @param owner The wallet owner address
+ * @param after Only consider sales after this timestamp
+ * @returns Array of offer fills
+ */
+const getOfferFills = async (
+    chain: string,
+    seaport: OpenSeaSDK,
+    owner: string,
+    after: number
+): Promise<OfferFill[]> => {
+    const sales = (await getAccountEvents(seaport, owner, AssetEventType.SALE, after)).filter(
+        (event) =>
+            event.event_type === AssetEventType.SALE &&
+            'buyer' in event &&
+            event.buyer.toLowerCase() === owner.toLowerCase()
+    );
+    if (sales.length === 0) {
+        return [];
+    }
+
+    // Only sales of our offers count, not the listings we bought
+    const offerEvents = new Map<string, AssetEvent>();
+    const offersAfter = Math.floor(Date.now() / 1000) - MAX_ORDER_DURATION_SECONDS;
+    for (const eventType of Object.keys(OFFER_EVENT_TYPES)) {
+        const events = await getAccountEvents(
+            seaport,
+            owner,
+            eventType as AssetEventType,
+            offersAfter
+        );
+        for (const event of events) {
+            if ('order_hash' in event && event.order_hash) {
+                offerEvents.set(event.order_hash.toLowerCase(), event);
+            }
+        }
+    }
+
+    const fills: OfferFill[] = [];
+    for (const sale of sales) {
+        if (!('nft' in sale) || !('order_hash' in sale) || !('transaction' in sale)) {
+            continue;
+        }
+        const offerEvent = offerEvents.get(sale.order_hash.toLowerCase());
+        if (!offerEvent) {
+            continue;
+        }
+
+        const trait =
+            'criteria' in offerEvent
+                ? (offerEvent.criteria.trait as { type: string; value: string } | undefined)
+                : undefined;
+        fills.push({
+            chain,
+            collectionSlug: sale.nft.collection,
+            offerType: OFFER_EVENT_TYPES[offerEvent.event_type],
+            trait: trait ? { traitType: trait.type, value: trait.value } : undefined,
+            tokenAddress: sale.nft.contract,
+            tokenId: sale.nft.identifier,
+            quantity: sale.quantity,
+            price: formatUnits(sale.payment.quantity, sale.payment.decimals),
+            currency: sale.payment.symbol,
+            orderHash: sale.order_hash,
+            transaction: sale.transaction,
+            timestamp: sale.event_timestamp,
+        });
+    }
+    return fills;
+};
+
+/**
+ * Detects sales made through our offers, counts them towards the targets of the offer
+ * collection entries and records them in the fills file
+ * Entries reaching their target are disabled and their remaining offers are canceled.
+ * @param collections Array of offer collection configurations
+ * @param openSeaClients Record of OpenSea SDK instances by chain
+ * @param owner The wallet owner address
+ * @param dryRun If true, skip actual cancellation
+ */
+export const trackOfferFills = async (
+    collections: OfferCollection[],
+    openSeaClients: Record<string, OpenSeaSDK>,
+    owner: string,
+    dryRun: boolean = false
+): Promise<void> => {
+    const state = readFillsState();
+    const checkedAt = Math.floor(Date.now() / 1000);
+    const after = state.checkedAt - SALE_LOOKBACK_SECONDS;
+    const chains = new Set(collections.map((c) => c.chain));
+    let failed = false;
+
+    for (const chain of chains) {
+        let fills: OfferFill[];
+        try {
+            fills = await getOfferFills(chain, openSeaClients[chain], owner, after);
+        } catch (err) {
+            logger.error(`Error getting offer fills for chain ${chain}:`, err);
+            failed = true;
+            continue;
+        }
+
+        for (const fill of fills) {
+            const isKnown = state.fills.some(
+                (f) =>
+                    f.transaction === fill.transaction &&
+                    f.orderHash === fill.orderHash &&
+                    f.tokenId === fill.tokenId
+            );
+            if (isKnown) {
+                continue;
+            }
+            state.fills.push(fill);
+
+            const c = collections.find((c) => matchesOfferFill(fill, c));
+            logger.info(
+                `Our ${fill.offerType} offer for ${fill.collectionSlug} was filled: bought tokenId=${fill.tokenId} (quantity: ${fill.quantity}) for ${fill.price} ${fill.currency} in tx ${fill.transaction}`
+            );
+            if (!c || !applyOfferFill(c, fill)) {
+                continue;
+            }
+
+            logger.warn(
+                `Acquired ${c.acquired}/${c.targetQuantity} item(s) for ${c.collectionSlug} on ${c.chain}. Disabling the offer entry ...`
+            );
+            // Whatever is left of our offers could still be filled
+            try {
+                const offers = await getOffersForCollection(c, openSeaClients[chain], owner);
+                for (const offer of offers) {
+                    await cancelOffer(openSeaClients[chain], c.collectionSlug, offer, dryRun);
+                }
+                c.exposure = 0n;
+                for (const tier of c.tiers || []) {
+                    tier.exposure = 0n;
+                }
+            } catch (err) {
+                logger.error(`Error canceling remaining offers for ${c.collectionSlug}:`, err);
+            }
+        }
+    }
+
+    // Check from the same point again next time if a chain could not be checked
+    if (!failed) {
+        state.checkedAt = checkedAt;
+    }
+    fs.writeFileSync(fillsFilePath, JSON.stringify(state, null, 4));
+};
@@ -0,0 +1,138 @@
+import { Contract, JsonRpcProvider, ZeroAddress, ZeroHash } from 'ethers';
+import { Offer } from 'opensea-js';
+
+import { logger } from '../utils/logger.js';
+import { withRetry } from '../utils/ratelimit.js';
+import { ERC20_ABI, OPENSEA_CONDUIT_ADDRESS, SEAPORT_ADDRESS } from '../networks/contracts.js';
+import { getOfferQuantity, sumOfferEndAmounts } from './utils.js';
+
+/**
+ * Rules competing offers must pass to be outbid
+ */
+export type OfferValidityOptions = {
+    minRemainingSeconds: number; // Offers expiring sooner are ignored (default: 0, i.e. disabled)
+    verifyFunding: boolean; // Ignore offers whose bidder cannot pay for a single item
+    fundingCacheSeconds: number; // How long a bidder's balance and allowance are reused
+};
+
+type BidderFunds = {
+    balance: bigint;
+    allowance: bigint;
+    fetchedAt: number;
+};
+
+// RPC providers by chain, used to read the balances and allowances of bidders
+let providers: Record<string, JsonRpcProvider> = {};
+
+let options: OfferValidityOptions = {
+    minRemainingSeconds: 0,
+    verifyFunding: false,
+    fundingCacheSeconds: 300,
+};
+
+// Funds of bidders, by chain, bidder, token and operator
+const fundsCache = new Map<string, BidderFunds>();
+
+/**
+ * Sets the rules competing offers must pass and the RPC providers used to check bidders' funds
+ * @param chainProviders Record of RPC providers by chain
+ * @param validityOptions The validity rules
+ */
+export const initializeOfferValidity = (
+    chainProviders: Record<string, JsonRpcProvider>,
+    validityOptions: OfferValidityOptions
+) => {
+    providers = chainProviders;
+    options = validityOptions;
+};
+
+/**
+ * Gets the WETH balance and allowance of a bidder, cached for the configured time
+ * @param chain The chain name
+ * @param bidder The bidder address
+ * @param token The payment token address
+ * @param operator The address the bidder must have approved
+ * @returns The bidder's funds
+ */
+const getBidderFunds = async (
+    chain: string,
+    bidder: string,
+    token: string,
+    operator: string
+): Promise<BidderFunds> => {
+    const key = `${chain}:${bidder}:${token}:${operator}`.toLowerCase();
+    const cached = fundsCache.get(key);
+    const now = Math.floor(Date.now() / 1000);
+    if (cached && now - cached.fetchedAt < options.fundingCacheSeconds) {
+        return cached;
+    }
+
+    const contract = new Contract(token, ERC20_ABI, providers[chain]);
+    const [balance, allowance] = await Promise.all([
+        withRetry(() => contract.balanceOf(bidder) as Promise<bigint>),
+        withRetry(() => contract.allowance(bidder, operator) as Promise<bigint>),
+    ]);
+    const funds = { balance, allowance, fetchedAt: now };
+    fundsCache.set(key, funds);
+    return funds;
+};
+
+/**
+ * Checks if an offer is worth competing with: not about to expire and funded by its bidder
+ * @param offer The offer to check
+ * @returns True if the offer is valid
+ */
+const isCompetingOffer = async (offer: Offer): Promise<boolean> => {
+    const parameters = offer.protocol_data.parameters;
+    const remainingSeconds = Number(parameters.endTime) - Math.floor(Date.now() / 1000);
+    if (remainingSeconds < options.minRemainingSeconds) {
+        logger.debug(
+            `Offer ${offer.order_hash} expires in ${remainingSeconds} seconds. Ignoring it ...`
+        );
+        return false;
+    }
+
+    const token = parameters.offer[0]?.token;
+    if (!options.verifyFunding || !providers[offer.chain] || !token || token === ZeroAddress) {
+        return true;
+    }
+
+    // The bidder only needs to cover a single item for the offer to be fillable
+    const amountPerItem = sumOfferEndAmounts(offer) / BigInt(getOfferQuantity(offer));
+    const operator = parameters.conduitKey === ZeroHash ? SEAPORT_ADDRESS : OPENSEA_CONDUIT_ADDRESS;
+    try {
+        const { balance, allowance } = await getBidderFunds(
+            offer.chain,
+            parameters.offerer,
+            token,
+            operator
+        );
+        if (balance < amountPerItem || allowance < amountPerItem) {
+            logger.debug(
+                `Offer ${offer.order_hash} is not funded by ${parameters.offerer} (balance: ${balance}, allowance: ${allowance}, needed: ${amountPerItem}). Ignoring it ...`
+            );
+            return false;
+        }
+    } catch (err) {
+        // Better to compete with a ghost offer than to ignore a real one
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        logger.warn(
+            `Could not verify the funds of ${parameters.offerer} for offer ${offer.order_hash}: ${errorMessage}`
+        );
+    }
+    return true;
+};
+
+/**
+ * Finds the first offer worth competing with, skipping offers about to expire and ghost offers
+ * @param offers The offers, sorted from best to worst
+ * @returns The first valid offer or undefined if none is valid
+ */
+export const findCompetingOffer = async (offers: Offer[]): Promise<Offer | undefined> => {
+    for (const offer of offers) {
+        if (await isCompetingOffer(offer)) {
+            return offer;
+        }
+    }
+    return undefined;
+};
@@ -1,14 +1,18 @@
+import { ZeroAddress } from 'ethers';
 import { Offer, OrderV2, OrderStatus } from 'opensea-js';
 
+import { getChainIdFromChain } from '../networks/index.js';
+import { getTokenInfo, TokenInfo } from '../tokens/index.js';
+
 /**
  * Converts an OrderV2 to an Offer type.
  * @param orderV2 The OrderV2 object to convert
  * @param chain The chain the order exists on
  * @returns An Offer object
  */
-export function orderV2ToOffer(orderV2: OrderV2, chain: string): Offer {
+export async function orderV2ToOffer(orderV2: OrderV2, chain: string): Promise<Offer> {
     // Extract currency information from the order
-    const currency = getOrderCurrency(orderV2);
+    const currency = await getOrderCurrency(orderV2, chain);
 
     return {
         order_hash: orderV2.orderHash || '',
@@ -26,14 +30,13 @@ export function orderV2ToOffer(orderV2: OrderV2, chain: string): Offer {
 
 /**
  * Extracts currency information from an OrderV2 by parsing the Seaport protocol data.
+ * Unknown ERC20 tokens are looked up onchain. Tokens that cannot be looked up are
+ * reported as UNKNOWN so they are never compared against ETH prices.
  * @param orderV2 The OrderV2 object to extract currency from
- * @returns An object containing currency information including address, symbol, and decimals
+ * @param chain The chain the order exists on
+ * @returns The currency token including address, symbol, and decimals
  */
-function getOrderCurrency(orderV2: OrderV2): {
-    address: string;
-    symbol: string;
-    decimals: number;
-} {
+async function getOrderCurrency(orderV2: OrderV2, chain: string): Promise<TokenInfo> {
     // For Seaport orders, the currency is in the offer items (for offers, we're offering currency)
     const seaportOrder = orderV2.protocolData as any;
 
@@ -54,60 +57,8 @@ function getOrderCurrency(orderV2: OrderV2): {
     // Get the first currency item (there might be multiple for fees)
     const currencyItem = currencyItems[0];
 
-    let address: string;
-    let symbol: string;
-    let decimals: number;
-
-    if (currencyItem.itemType === 0) {
-        // ETH
-        address = '0x0000000000000000000000000000000000000000';
-        symbol = 'ETH';
-        decimals = 18;
-    } else if (currencyItem.itemType === 1) {
-        // ERC20 token
-        address = currencyItem.token;
-        // Use helper functions to get symbol and decimals
-        symbol = getCurrencySymbol(address); // Default to Mainnet, could be enhanced
-        decimals = getCurrencyDecimals(address);
-    } else {
-        throw new Error(`Unsupported currency item type: ${currencyItem.itemType}`);
-    }
-
-    return { address, symbol, decimals };
-}
-
-/**
- * Gets the currency symbol for a given token address.
- *  TODO: Support chain-specific token symbols
- * @param address The token address
- * @returns The currency symbol
- */
-function getCurrencySymbol(address: string): string {
-    const normalizedAddress = address.toLowerCase();
-
-    // Common token addresses
-    const tokenSymbols: Record<string, string> = {
-        '0x0000000000000000000000000000000000000000': 'ETH',
-    };
-
-    return tokenSymbols[normalizedAddress] || 'UNKNOWN';
-}
-
-/**
- * Gets the currency decimals for a given token address.
- * This is a simplified mapping - in a real implementation, you might want to query the token contract.
- * @param address The token address
- * @returns The number of decimals (defaults to 18 for most tokens)
- */
-function getCurrencyDecimals(address: string): number {
-    const normalizedAddress = address.toLowerCase();
-
-    // Most ERC20 tokens use 18 decimals, but some use different values
-    // eg. USDC has 6 decimals
-    const tokenDecimals: Record<string, number> = {
-        '0x0000000000000000000000000000000000000000': 18, // ETH
-        // Add other tokens with non-standard decimals here if needed
-    };
-
-    return tokenDecimals[normalizedAddress] || 18;
+    // itemType 0 is the chain's native token, which is not ETH on every chain
+    const address = currencyItem.itemType === 0 ? ZeroAddress : currencyItem.token;
+    const token = await getTokenInfo(getChainIdFromChain(chain), address);
+    return token ?? { address, symbol: 'UNKNOWN', decimals: 18 };
 }
@@ -1,73 +1,72 @@
+import { ZeroAddress } from 'ethers';
+import { Listing, Offer } from 'opensea-js';
+
+import { KNOWN_TOKENS, findToken, findTokenBySymbol, isEtherToken } from '../tokens/index.js';
+import { getChainIdFromChain } from '../networks/index.js';
+import { getListingPaymentToken } from '../listings/utils.js';
+import { getOfferPaymentToken } from './utils.js';
+
 /**
  * Payment token addresses
  */
-export const ETH_PAYMENT_TOKEN = '0x0000000000000000000000000000000000000000'; // ETH address
+export const ETH_PAYMENT_TOKEN = ZeroAddress; // ETH address
 
 /**
  * WETH payment token addresses by chain ID
  */
-const MAINNET_WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
-
-export const WETH_PAYMENT_TOKENS: Record<number, string> = {
-    1: MAINNET_WETH, // Ethereum mainnet
-    10: MAINNET_WETH, // Optimism
-    137: MAINNET_WETH, // Polygon
-    8453: MAINNET_WETH, // Base
-    42161: MAINNET_WETH, // Arbitrum
-    7777777: MAINNET_WETH, // Zora
-    360: '0x4200000000000000000000000000000000000006', // Shape chain
-};
+export const WETH_PAYMENT_TOKENS: Record<number, string> = Object.fromEntries(
+    Object.entries(KNOWN_TOKENS).map(([chainId, tokens]) => [chainId, tokens.weth.address])
+);
 
 // Legacy constants for backward compatibility
 export const WETH_PAYMENT_TOKEN_MAINNET = WETH_PAYMENT_TOKENS[1];
 export const WETH_PAYMENT_TOKEN_SHAPE = WETH_PAYMENT_TOKENS[360];
 
 /**
- * Checks if a currency is ETH or WETH
+ * Checks if a payment token is ETH or WETH
+ * @param address The payment token address
+ * @param chainId The chain ID
+ * @returns True if the token is the chain's ETH or WETH, whatever other tokens call themselves
  */
-export const isETHOrWETH = (currency: string): boolean => {
-    const normalized = currency.toUpperCase();
-    return normalized === 'ETH' || normalized === 'WETH';
-};
+export const isETHOrWETH = (address: string, chainId: number): boolean =>
+    isEtherToken(chainId, address);
+
+/**
+ * Checks if a listing is paid in ETH or WETH
+ * @param listing The listing
+ * @returns True if the listing is priced in ETH
+ */
+export const isListingInETH = (listing: Listing): boolean =>
+    isETHOrWETH(getListingPaymentToken(listing), getChainIdFromChain(listing.chain));
+
+/**
+ * Checks if an offer is paid in ETH or WETH
+ * @param offer The offer
+ * @returns True if the offer is priced in ETH
+ */
+export const isOfferInETH = (offer: Offer): boolean =>
+    isETHOrWETH(getOfferPaymentToken(offer), getChainIdFromChain(offer.chain));
 
 /**
  * Gets the payment token address for a given currency
- * @param currency The currency symbol (ETH or WETH)
- * @param chainId Optional chain ID (defaults to mainnet)
+ * @param currency The currency symbol (e.g. ETH, WETH or USDC)
+ * @param chainId The chain ID
  * @returns The payment token address
  */
 export const getPaymentTokenAddress = (currency: string, chainId: number): string => {
-    const normalized = currency.toUpperCase();
-
-    if (normalized === 'ETH') {
-        return ETH_PAYMENT_TOKEN;
+    const token = findTokenBySymbol(chainId, currency);
+    if (!token) {
+        throw new Error(`Unsupported payment token: ${currency} on chain ID ${chainId}`);
     }
-
-    if (normalized === 'WETH') {
-        if (WETH_PAYMENT_TOKENS[chainId]) {
-            return WETH_PAYMENT_TOKENS[chainId];
-        }
-
-        return MAINNET_WETH;
-    }
-
-    throw new Error(`Unsupported payment token: ${currency}`);
+    return token.address;
 };
 
 /**
  * Gets the currency symbol from a payment token address
+ * @param address The payment token address
+ * @param chainId The chain ID
+ * @returns The currency symbol or UNKNOWN
  */
-export const getCurrencyFromAddress = (address: string): string => {
-    const normalized = address.toLowerCase();
-
-    if (normalized === ETH_PAYMENT_TOKEN.toLowerCase()) {
-        return 'ETH';
-    }
-
-    // Check if address matches any WETH token address
-    if (Object.values(WETH_PAYMENT_TOKENS).some((addr) => normalized === addr.toLowerCase())) {
-        return 'WETH';
-    }
-
-    return 'UNKNOWN';
+export const getCurrencyFromAddress = (address: string, chainId: number): string => {
+    return findToken(chainId, address)?.symbol ?? 'UNKNOWN';
 };
@@ -0,0 +1,125 @@
+import { OpenSeaSDK, Offer } from 'opensea-js';
+
+import { logger } from '../utils/logger.js';
+import { OfferCollection, inferOfferType } from '../collections/types.js';
+import { getWalletOffers } from './getWalletOffers.js';
+import { cancelOffer } from './cancelOffer.js';
+import { getOfferQuantity } from './utils.js';
+
+/**
+ * Checks if an offer belongs to an offer collection entry as currently configured
+ * Offers with a lower quantity still match since budgets can shrink them, and offers of the
+ * entry's tiers match up to the largest tier quantity.
+ * @param offer The offer to check
+ * @param c The offer collection configuration
+ * @returns True if the offer matches the entry
+ */
+const matchesOfferCollection = (offer: Offer, c: OfferCollection): boolean => {
+    const offerType = inferOfferType(c);
+
+    if (offerType === 'single') {
+        return (
+            !offer.criteria &&
+            offer.protocol_data.parameters.consideration.some(
+                (item) =>
+                    item.token.toLowerCase() === c.tokenAddress.toLowerCase() &&
+                    item.identifierOrCriteria == c.tokenId
+            )
+        );
+    }
+
+    if (!offer.criteria || offer.criteria.collection?.slug !== c.collectionSlug) {
+        return false;
+    }
+    const maxQuantity = Math.max(c.quantity || 1, ...(c.tiers || []).map((t) => t.quantity));
+    if (getOfferQuantity(offer) > maxQuantity) {
+        return false;
+    }
+    if (offerType === 'trait') {
+        return (
+            offer.criteria.trait?.type === c.trait?.traitType &&
+            offer.criteria.trait?.value === c.trait?.value
+        );
+    }
+    return !offer.criteria.trait && !offer.criteria.traits;
+};
+
+/**
+ * Checks if an offer is allowlisted by order hash or collection slug
+ * @param offer The offer to check
+ * @param collectionSlug The collection slug of the offer
+ * @param allowlist Order hashes and collection slugs to preserve
+ * @returns True if the offer must be preserved
+ */
+const isAllowlisted = (offer: Offer, collectionSlug: string, allowlist: string[]): boolean =>
+    allowlist.some(
+        (entry) =>
+            entry.toLowerCase() === offer.order_hash.toLowerCase() || entry === collectionSlug
+    );
+
+/**
+ * Cancels all of the wallet's active offers that do not match a current offer collection entry
+ * Offers are discovered per chain from the wallet's offer events, so offers left behind by
+ * removed or edited entries are found too.
+ * @param collections Array of offer collection configurations
+ * @param openSeaClients Record of OpenSea SDK instances by chain
+ * @param owner The wallet owner address
+ * @param allowlist Order hashes and collection slugs of offers to preserve, e.g. made manually
+ * @param dryRun If true, skip actual cancellation
+ */
+export const reconcileOffers = async (
+    collections: OfferCollection[],
+    openSeaClients: Record<string, OpenSeaSDK>,
+    owner: string,
+    allowlist: string[] = [],
+    dryRun: boolean = false
+): Promise<void> => {
+    for (const [chain, seaport] of Object.entries(openSeaClients)) {
+        const chainCollections = collections.filter((c) => c.chain === chain);
+
+        try {
+            // Collections we currently make offers on, plus the ones we made offers on before
+            const offersBySlug = await getWalletOffers(
+                seaport,
+                owner,
+                chainCollections.map((c) => c.collectionSlug)
+            );
+
+            let canceled = 0;
+            for (const [slug, offers] of offersBySlug) {
+                for (const offer of offers) {
+                    if (chainCollections.some((c) => matchesOfferCollection(offer, c))) {
+                        continue;
+                    }
+                    if (isAllowlisted(offer, slug, allowlist)) {
+                        logger.debug(
+                            `Offer ${offer.order_hash} for ${slug} is allowlisted. Skipping...`
+                        );
+                        continue;
+                    }
+
+                    logger.info(
+                        `Offer ${offer.order_hash} for ${slug} on ${chain} does not match any configured offer ...`
+                    );
+                    try {
+                        await cancelOffer(seaport, slug, offer, dryRun);
+                        canceled++;
+                    } catch (err) {
+                        const errorMessage = err instanceof Error ? err.message : String(err);
+                        logger.error(
+                            `Failed to cancel unmatched offer ${offer.order_hash} for ${slug} on chain ${chain}: ${errorMessage}`
+                        );
+                    }
+                }
+            }
+
+            if (canceled > 0) {
+                logger.info(
+                    `${dryRun ? '[DRY-RUN] ' : ''}Canceled ${canceled} unmatched offer(s) on chain ${chain}`
+                );
+            }
+        } catch (err) {
+            logger.error(`Error reconciling offers for chain ${chain}:`, err);
+        }
+    }
+};
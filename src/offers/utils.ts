@@ -1,3 +1,4 @@
+import { ZeroAddress } from 'ethers';
 import { Offer } from 'opensea-js';
 
 /**
@@ -52,6 +53,20 @@ export function getOfferQuantity(offer: Offer): number {
     return quantity || 1;
 }
 
+/**
+ * Gets the quantity of items an offer can still buy
+ * Falls back to the offered quantity when the remaining quantity is not reported
+ * @param offer The offer to get quantity from
+ * @returns The remaining quantity as a number
+ */
+export function getOfferRemainingQuantity(offer: Offer): number {
+    const remainingQuantity = (offer as Offer & { remaining_quantity?: number }).remaining_quantity;
+    if (remainingQuantity && remainingQuantity > 0) {
+        return remainingQuantity;
+    }
+    return getOfferQuantity(offer);
+}
+
 /**
  * Determines the offer type from the offer structure
  * @param offer The offer to analyze
@@ -84,33 +99,11 @@ export function getOfferPricePerItem(offer: Offer): bigint {
     return totalPrice / BigInt(quantity);
 }
 
-const MIN_EXPIRATION_TIME_SECONDS = 15 * 60; // 15 minutes minimum to avoid OpenSea API issues
-
 /**
- * Derives the expiration time for a new offer
- * Uses the previous offer's expiration time if available, otherwise uses the default expiration time
- * Ensures the expiration time is at least 15 minutes from now to avoid OpenSea API issues
- * @param previousExpirationTime The expiration time from the previous offer (in seconds), or undefined if no previous offer
- * @param defaultExpirationTimeSeconds The default expiration time in seconds to use when there's no previous offer
- * @returns The expiration time in seconds (Unix timestamp)
+ * Gets the token an offer is paid in
+ * @param offer The offer
+ * @returns The payment token address, the zero address for ETH
  */
-export function deriveExpirationTime(
-    previousExpirationTime: number | undefined,
-    defaultExpirationTimeSeconds: number
-): number {
-    const currentTime = Math.floor(Date.now() / 1000);
-    const minExpirationTime = currentTime + MIN_EXPIRATION_TIME_SECONDS;
-
-    let expirationTime: number;
-    if (previousExpirationTime !== undefined) {
-        // Use the previous offer's expiration time, but ensure it's at least 15 minutes from now
-        expirationTime = Math.max(previousExpirationTime, minExpirationTime);
-    } else {
-        // No previous offer, use default expiration time
-        expirationTime = currentTime + defaultExpirationTimeSeconds;
-        // Still ensure it's at least 15 minutes from now (though default should be much longer)
-        expirationTime = Math.max(expirationTime, minExpirationTime);
-    }
-
-    return expirationTime;
+export function getOfferPaymentToken(offer: Offer): string {
+    return offer.protocol_data.parameters.offer[0]?.token ?? ZeroAddress;
 }
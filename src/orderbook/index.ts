@@ -0,0 +1,13 @@
+export {
+    type OfferBook,
+    type ListingBook,
+    type OrderBookSide,
+    type OrderBookOptions,
+} from './types.js';
+export {
+    initializeOrderBook,
+    getOfferBook,
+    getListingBook,
+    invalidateOrderBook,
+    filterByOfferer,
+} from './orderBook.js';
@@ -0,0 +1,231 @@
+import { OpenSeaSDK, Listing, Offer } from 'opensea-js';
+
+import { logger } from '../utils/logger.js';
+import { withRateLimitRetry } from '../utils/ratelimit.js';
+import { ListingBook, OfferBook, OrderBookOptions, OrderBookSide } from './types.js';
+
+/**
+ * A book being fetched or fetched, shared by every lookup until it expires
+ */
+type Snapshot = {
+    book: Promise<OfferBook | ListingBook>;
+    fetchedAt: number;
+};
+
+let options: OrderBookOptions = {
+    ttlSeconds: 5,
+};
+
+// Snapshots by side, chain and collection slug
+const snapshots = new Map<string, Snapshot>();
+
+/**
+ * Sets how long order book snapshots are reused
+ * @param orderBookOptions The order book options
+ */
+export const initializeOrderBook = (orderBookOptions: OrderBookOptions) => {
+    options = orderBookOptions;
+    snapshots.clear();
+};
+
+/**
+ * Gets the key of a snapshot
+ * @param side The side of the book
+ * @param chain The chain name
+ * @param collectionSlug The collection slug
+ * @returns e.g. "offers:ethereum:cryptopunks"
+ */
+const getSnapshotKey = (side: OrderBookSide, chain: string, collectionSlug: string): string =>
+    `${side}:${chain}:${collectionSlug}`;
+
+/**
+ * Adds an order to an index
+ * @param index The index
+ * @param key The key of the order in the index
+ * @param order The order
+ */
+const addToIndex = <T>(index: Map<string, T[]>, key: string, order: T) => {
+    const orders = index.get(key);
+    if (orders) {
+        orders.push(order);
+    } else {
+        index.set(key, [order]);
+    }
+};
+
+/**
+ * Pages through every offer on a collection and indexes them
+ * @param seaport The OpenSea SDK instance
+ * @param collectionSlug The collection slug
+ * @returns The indexed offers
+ */
+const fetchOfferBook = async (seaport: OpenSeaSDK, collectionSlug: string): Promise<OfferBook> => {
+    const book: OfferBook = {
+        offers: [],
+        criteriaOffers: [],
+        byToken: new Map(),
+        byTrait: new Map(),
+        byOfferer: new Map(),
+    };
+
+    let next: string | undefined;
+    do {
+        const offersResp = await withRateLimitRetry(() =>
+            seaport.api.getAllOffers(collectionSlug, 100, next)
+        );
+        for (const o of offersResp.offers) {
+            if (!o.price.value || o.price.value === '0') {
+                continue;
+            }
+            book.offers.push(o);
+            if (o.criteria) {
+                book.criteriaOffers.push(o);
+            }
+            if (o.criteria?.trait) {
+                const { type, value } = o.criteria.trait;
+                if (!book.byTrait.has(type)) {
+                    book.byTrait.set(type, new Map());
+                }
+                addToIndex(book.byTrait.get(type)!, value, o);
+            }
+            const tokenIds = o.protocol_data.parameters.consideration.map((c) =>
+                String(c.identifierOrCriteria)
+            );
+            for (const tokenId of new Set(tokenIds)) {
+                addToIndex(book.byToken, tokenId, o);
+            }
+            addToIndex(book.byOfferer, o.protocol_data.parameters.offerer.toLowerCase(), o);
+        }
+        next = offersResp.next;
+    } while (next);
+
+    logger.debug(
+        `Fetched ${book.offers.length} offers on ${collectionSlug} (${seaport.chain}) ...`
+    );
+    return book;
+};
+
+/**
+ * Pages through every listing of a collection and indexes them
+ * @param seaport The OpenSea SDK instance
+ * @param collectionSlug The collection slug
+ * @returns The indexed listings
+ */
+const fetchListingBook = async (
+    seaport: OpenSeaSDK,
+    collectionSlug: string
+): Promise<ListingBook> => {
+    const book: ListingBook = { listings: [], byToken: new Map(), byOfferer: new Map() };
+
+    let next: string | undefined;
+    do {
+        const listingsResp = await withRateLimitRetry(() =>
+            seaport.api.getAllListings(collectionSlug, 100, next)
+        );
+        for (const l of listingsResp.listings) {
+            const priceValue = l.price.current.value;
+            if (!priceValue || priceValue === '0') {
+                continue;
+            }
+            book.listings.push(l);
+            const tokenIds = l.protocol_data.parameters.offer.map((o) =>
+                String(o.identifierOrCriteria)
+            );
+            for (const tokenId of new Set(tokenIds)) {
+                addToIndex(book.byToken, tokenId, l);
+            }
+            addToIndex(book.byOfferer, l.protocol_data.parameters.offerer.toLowerCase(), l);
+        }
+        next = listingsResp.next;
+    } while (next);
+
+    logger.debug(
+        `Fetched ${book.listings.length} listings of ${collectionSlug} (${seaport.chain}) ...`
+    );
+    return book;
+};
+
+/**
+ * Gets the snapshot of one side of a collection's order book, fetching it if it expired
+ * Concurrent lookups share the same fetch, and a failed fetch is not reused.
+ * @param side The side of the book
+ * @param seaport The OpenSea SDK instance
+ * @param collectionSlug The collection slug
+ * @param fetchBook Fetches the book
+ * @returns The book
+ */
+const getSnapshot = <T extends OfferBook | ListingBook>(
+    side: OrderBookSide,
+    seaport: OpenSeaSDK,
+    collectionSlug: string,
+    fetchBook: () => Promise<T>
+): Promise<T> => {
+    const key = getSnapshotKey(side, seaport.chain, collectionSlug);
+    const snapshot = snapshots.get(key);
+    if (snapshot && Date.now() - snapshot.fetchedAt < options.ttlSeconds * 1000) {
+        return snapshot.book as Promise<T>;
+    }
+
+    const book = fetchBook();
+    snapshots.set(key, { book, fetchedAt: Date.now() });
+    book.catch(() => {
+        if (snapshots.get(key)?.book === book) {
+            snapshots.delete(key);
+        }
+    });
+    return book;
+};
+
+/**
+ * Gets every offer on a collection, from the snapshot of the current cycle if any
+ * @param seaport The OpenSea SDK instance
+ * @param collectionSlug The collection slug
+ * @returns The indexed offers, shared with other lookups and not to be modified
+ */
+export const getOfferBook = (seaport: OpenSeaSDK, collectionSlug: string): Promise<OfferBook> =>
+    getSnapshot('offers', seaport, collectionSlug, () => fetchOfferBook(seaport, collectionSlug));
+
+/**
+ * Gets every listing of a collection, from the snapshot of the current cycle if any
+ * @param seaport The OpenSea SDK instance
+ * @param collectionSlug The collection slug
+ * @returns The indexed listings, shared with other lookups and not to be modified
+ */
+export const getListingBook = (seaport: OpenSeaSDK, collectionSlug: string): Promise<ListingBook> =>
+    getSnapshot('listings', seaport, collectionSlug, () =>
+        fetchListingBook(seaport, collectionSlug)
+    );
+
+/**
+ * Drops snapshots after we post or cancel an order, so the next lookup sees the change
+ * @param chain The chain name
+ * @param side The side of the book
+ * @param collectionSlug The collection slug, or every collection of the chain if not set
+ */
+export const invalidateOrderBook = (
+    chain: string,
+    side: OrderBookSide,
+    collectionSlug?: string
+) => {
+    if (collectionSlug) {
+        snapshots.delete(getSnapshotKey(side, chain, collectionSlug));
+        return;
+    }
+    for (const key of snapshots.keys()) {
+        if (key.startsWith(`${side}:${chain}:`)) {
+            snapshots.delete(key);
+        }
+    }
+};
+
+/**
+ * Keeps the orders of an offerer
+ * @param orders The orders
+ * @param offerer Optional offerer address, every order is kept if not set
+ * @returns A new array of the matching orders
+ */
+export const filterByOfferer = <T extends Offer | Listing>(orders: T[], offerer?: string): T[] =>
+    orders.filter(
+        (o) =>
+            !offerer || o.protocol_data.parameters.offerer.toLowerCase() === offerer.toLowerCase()
+    );
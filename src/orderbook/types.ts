@@ -0,0 +1,27 @@
+import { Listing, Offer } from 'opensea-js';
+
+/**
+ * Offers on a collection with a price, indexed for lookups
+ */
+export type OfferBook = {
+    offers: Offer[];
+    criteriaOffers: Offer[]; // Collection and trait offers
+    byToken: Map<string, Offer[]>; // By token ID of the consideration
+    byTrait: Map<string, Map<string, Offer[]>>; // By trait type, then trait value
+    byOfferer: Map<string, Offer[]>; // By lowercase offerer address
+};
+
+/**
+ * Listings of a collection with a price, indexed for lookups
+ */
+export type ListingBook = {
+    listings: Listing[];
+    byToken: Map<string, Listing[]>; // By token ID of the offer
+    byOfferer: Map<string, Listing[]>; // By lowercase offerer address
+};
+
+export type OrderBookSide = 'offers' | 'listings';
+
+export type OrderBookOptions = {
+    ttlSeconds: number; // How long a snapshot is reused (0 fetches the feed on every lookup)
+};
@@ -0,0 +1,86 @@
+import { Contract, JsonRpcProvider } from 'ethers';
+
+import { withRetry } from '../utils/ratelimit.js';
+import { PriceSource } from './types.js';
+
+const AGGREGATOR_ABI = [
+    'function decimals() view returns (uint8)',
+    'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+];
+
+const RATE_CACHE_TTL_SECONDS = 5 * 60; // 5 minutes
+const MAX_ANSWER_AGE_SECONDS = 24 * 60 * 60; // 1 day
+
+export type ChainlinkFeed = {
+    symbol: string; // Currency the feed prices
+    chain: string; // Chain the currency is used on, where the aggregator is deployed
+    address: string; // Aggregator address of a <currency>/ETH feed
+};
+
+/**
+ * Gets the key of a feed
+ * @param symbol The currency symbol
+ * @param chain The chain name
+ * @returns e.g. "ethereum:USDC"
+ */
+const getFeedKey = (symbol: string, chain: string): string => `${chain}:${symbol.toUpperCase()}`;
+
+/**
+ * Creates a price source that reads <currency>/ETH Chainlink aggregators through the RPC providers
+ * A feed only prices its currency on its own chain. Answers are cached for a few minutes and
+ * ignored once they are older than a day.
+ * @param feeds The Chainlink feeds
+ * @param providers Record of RPC providers by chain
+ * @returns The price source
+ */
+export const createChainlinkPriceSource = (
+    feeds: ChainlinkFeed[],
+    providers: Record<string, JsonRpcProvider>
+): PriceSource => {
+    const aggregators = new Map<string, Contract>();
+    for (const feed of feeds) {
+        const provider = providers[feed.chain];
+        if (!provider) {
+            throw new Error(
+                `No RPC provider configured for chain ${feed.chain} (needed by Chainlink feed for ${feed.symbol})`
+            );
+        }
+        aggregators.set(
+            getFeedKey(feed.symbol, feed.chain),
+            new Contract(feed.address, AGGREGATOR_ABI, provider)
+        );
+    }
+
+    const cache = new Map<string, { rateInWei: bigint | undefined; fetchedAt: number }>();
+
+    return {
+        name: 'chainlink',
+        getRateInWei: async (symbol: string, chain: string) => {
+            const key = getFeedKey(symbol, chain);
+            const aggregator = aggregators.get(key);
+            if (!aggregator) {
+                return undefined;
+            }
+
+            const now = Math.floor(Date.now() / 1000);
+            const cached = cache.get(key);
+            if (cached && now - cached.fetchedAt < RATE_CACHE_TTL_SECONDS) {
+                return cached.rateInWei;
+            }
+
+            const [decimals, roundData] = await Promise.all([
+                withRetry(() => aggregator.decimals()),
+                withRetry(() => aggregator.latestRoundData()),
+            ]);
+            const answer = BigInt(roundData.answer);
+            const isStale = now - Number(roundData.updatedAt) > MAX_ANSWER_AGE_SECONDS;
+            const rateInWei =
+                answer > 0n && !isStale
+                    ? (answer * 10n ** 18n) / 10n ** BigInt(decimals)
+                    : undefined;
+
+            cache.set(key, { rateInWei, fetchedAt: now });
+            return rateInWei;
+        },
+    };
+};
@@ -0,0 +1,127 @@
+import { formatUnits } from 'ethers';
+import { Listing, Offer } from 'opensea-js';
+
+import { logger } from '../utils/logger.js';
+import { isListingInETH, isOfferInETH } from '../offers/paymentTokens.js';
+import { getListingPaymentToken } from '../listings/utils.js';
+import { getOfferPaymentToken } from '../offers/utils.js';
+import { getChainIdFromChain } from '../networks/index.js';
+import { findKnownToken } from '../tokens/index.js';
+import { PriceSource } from './types.js';
+
+// Price sources in order of preference, set once at startup
+let priceSources: PriceSource[] = [];
+
+/**
+ * Sets the price sources used to convert non-ETH prices, in order of preference
+ * @param sources The price sources
+ */
+export const setPriceSources = (sources: PriceSource[]) => {
+    priceSources = sources;
+};
+
+/**
+ * Converts an amount of a currency other than ETH or WETH to wei
+ * Only known tokens are converted. Any ERC20 can call itself USDC, so a token whose symbol was
+ * looked up onchain never gets the rate of the token it claims to be.
+ * @param value The amount in the currency's base units
+ * @param tokenAddress The payment token address
+ * @param chain The chain the currency is used on
+ * @returns The amount in wei, or undefined if the token is not known or no price source has a rate
+ */
+export const convertToETH = async (
+    value: bigint,
+    tokenAddress: string,
+    chain: string
+): Promise<bigint | undefined> => {
+    const token = findKnownToken(getChainIdFromChain(chain), tokenAddress);
+    if (!token) {
+        return undefined;
+    }
+
+    const symbol = token.symbol.toUpperCase();
+    for (const source of priceSources) {
+        try {
+            const rateInWei = await source.getRateInWei(symbol, chain);
+            if (rateInWei !== undefined) {
+                return (value * rateInWei) / 10n ** BigInt(token.decimals);
+            }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            logger.warn(`Price source ${source.name} failed for ${symbol}: ${errorMessage}`);
+        }
+    }
+
+    return undefined;
+};
+
+/**
+ * Converts the price of a listing to ETH
+ * @param listing The listing to convert
+ * @returns A copy of the listing priced in ETH, or undefined if no rate is available
+ */
+export const listingToETH = async (listing: Listing): Promise<Listing | undefined> => {
+    const { currency, decimals, value } = listing.price.current;
+    if (isListingInETH(listing)) {
+        return listing;
+    }
+
+    const valueInWei = await convertToETH(
+        BigInt(value),
+        getListingPaymentToken(listing),
+        listing.chain
+    );
+    if (valueInWei === undefined) {
+        logger.debug(
+            `No ETH rate for listing ${listing.order_hash} priced at ${formatUnits(value, decimals)} ${currency}. Ignoring it ...`
+        );
+        return undefined;
+    }
+
+    return {
+        ...listing,
+        price: { current: { currency: 'ETH', decimals: 18, value: valueInWei.toString() } },
+    };
+};
+
+/**
+ * Converts the price of an offer to ETH
+ * @param offer The offer to convert
+ * @returns A copy of the offer priced in ETH, or undefined if no rate is available
+ */
+export const offerToETH = async (offer: Offer): Promise<Offer | undefined> => {
+    const { currency, decimals, value } = offer.price;
+    if (isOfferInETH(offer)) {
+        return offer;
+    }
+
+    const valueInWei = await convertToETH(BigInt(value), getOfferPaymentToken(offer), offer.chain);
+    if (valueInWei === undefined) {
+        logger.debug(
+            `No ETH rate for offer ${offer.order_hash} priced at ${formatUnits(value, decimals)} ${currency}. Ignoring it ...`
+        );
+        return undefined;
+    }
+
+    return { ...offer, price: { currency: 'ETH', decimals: 18, value: valueInWei.toString() } };
+};
+
+/**
+ * Converts a list of listings to ETH, dropping the ones without an available rate
+ * @param listings The listings to convert
+ * @returns The listings priced in ETH
+ */
+export const normalizeListings = async (listings: Listing[]): Promise<Listing[]> => {
+    const converted = await Promise.all(listings.map(listingToETH));
+    return converted.filter((l): l is Listing => l !== undefined);
+};
+
+/**
+ * Converts a list of offers to ETH, dropping the ones without an available rate
+ * @param offers The offers to convert
+ * @returns The offers priced in ETH
+ */
+export const normalizeOffers = async (offers: Offer[]): Promise<Offer[]> => {
+    const converted = await Promise.all(offers.map(offerToETH));
+    return converted.filter((o): o is Offer => o !== undefined);
+};
@@ -0,0 +1,40 @@
+import fs from 'fs';
+import { parseEther } from 'ethers';
+
+import { logger } from '../utils/logger.js';
+import { PriceSource } from './types.js';
+
+/**
+ * Creates a price source backed by a local JSON file of ETH prices by currency symbol,
+ * e.g. { "USDC": "0.0003" }. The file is re-read whenever it changes on disk.
+ * @param ratesPath Path to the JSON rates file
+ * @returns The price source
+ */
+export const createFilePriceSource = (ratesPath: string): PriceSource => {
+    let lastModified = 0;
+    let ratesInWei = new Map<string, bigint>();
+
+    const loadRates = () => {
+        const modified = fs.statSync(ratesPath).mtimeMs;
+        if (modified === lastModified) {
+            return;
+        }
+
+        const parsedRates: Record<string, string> = JSON.parse(fs.readFileSync(ratesPath, 'utf-8'));
+        const newRates = new Map<string, bigint>();
+        for (const [symbol, rate] of Object.entries(parsedRates)) {
+            newRates.set(symbol.toUpperCase(), parseEther(String(rate)));
+        }
+        ratesInWei = newRates;
+        lastModified = modified;
+        logger.debug(`Loaded ${ratesInWei.size} rate(s) from ${ratesPath}`);
+    };
+
+    return {
+        name: `file (${ratesPath})`,
+        getRateInWei: async (symbol: string) => {
+            loadRates();
+            return ratesInWei.get(symbol);
+        },
+    };
+};
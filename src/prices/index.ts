@@ -0,0 +1,13 @@
+export { type PriceSource } from './types.js';
+export { createStaticPriceSource } from './staticPriceSource.js';
+export { createFilePriceSource } from './filePriceSource.js';
+export { createChainlinkPriceSource, type ChainlinkFeed } from './chainlinkPriceSource.js';
+export { initializePriceSources } from './initializePriceSources.js';
+export {
+    setPriceSources,
+    convertToETH,
+    listingToETH,
+    offerToETH,
+    normalizeListings,
+    normalizeOffers,
+} from './convertToETH.js';
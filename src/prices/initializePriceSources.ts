@@ -0,0 +1,60 @@
+import { JsonRpcProvider } from 'ethers';
+
+import { logger } from '../utils/logger.js';
+import { PriceSource } from './types.js';
+import { createStaticPriceSource } from './staticPriceSource.js';
+import { createFilePriceSource } from './filePriceSource.js';
+import { ChainlinkFeed, createChainlinkPriceSource } from './chainlinkPriceSource.js';
+import { setPriceSources } from './convertToETH.js';
+
+/**
+ * Initializes the price sources used to convert non-ETH prices to ETH
+ * Live Chainlink feeds are preferred, then the rates file, then the static rates.
+ * @param options.staticRates Comma-separated static rates, e.g. "USDC:0.0003,APE:0.0002"
+ * @param options.ratesPath Path to a JSON file of rates by currency symbol
+ * @param options.chainlinkFeeds Comma-separated Chainlink feeds, each used for its currency on its
+ * chain only, e.g. "USDC:ethereum:0x986b..."
+ * @param providers Record of RPC providers by chain
+ * @returns Array of initialized price sources
+ */
+export const initializePriceSources = (
+    options: { staticRates?: string; ratesPath?: string; chainlinkFeeds?: string },
+    providers: Record<string, JsonRpcProvider>
+): PriceSource[] => {
+    const sources: PriceSource[] = [];
+
+    if (options.chainlinkFeeds) {
+        const feeds: ChainlinkFeed[] = [];
+        for (const entry of options.chainlinkFeeds.split(',')) {
+            const [symbol, chain, address] = entry.trim().split(':');
+            if (!symbol || !chain || !address) {
+                throw new Error(`Invalid Chainlink feed "${entry}", expected SYMBOL:chain:address`);
+            }
+            feeds.push({ symbol, chain, address });
+        }
+        sources.push(createChainlinkPriceSource(feeds, providers));
+    }
+
+    if (options.ratesPath) {
+        sources.push(createFilePriceSource(options.ratesPath));
+    }
+
+    if (options.staticRates) {
+        const rates: Record<string, string> = {};
+        for (const entry of options.staticRates.split(',')) {
+            const [symbol, rate] = entry.trim().split(':');
+            if (!symbol || !rate) {
+                throw new Error(`Invalid static rate "${entry}", expected SYMBOL:rate`);
+            }
+            rates[symbol] = rate;
+        }
+        sources.push(createStaticPriceSource(rates));
+    }
+
+    setPriceSources(sources);
+    logger.info(
+        `Currency conversion: ${sources.length > 0 ? sources.map((s) => s.name).join(', ') : 'DISABLED'}`
+    );
+
+    return sources;
+};
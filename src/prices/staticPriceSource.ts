@@ -0,0 +1,24 @@
+import { parseEther } from 'ethers';
+
+import { PriceSource } from './types.js';
+
+/**
+ * Creates a price source backed by a fixed table of rates
+ * @param rates Record of ETH prices (e.g. "0.0003") by currency symbol
+ * @returns The price source
+ */
+export const createStaticPriceSource = (rates: Record<string, string>): PriceSource => {
+    const ratesInWei = new Map<string, bigint>();
+    for (const [symbol, rate] of Object.entries(rates)) {
+        const rateInWei = parseEther(String(rate));
+        if (rateInWei <= 0) {
+            throw new Error(`Invalid static rate for ${symbol}: ${rate}`);
+        }
+        ratesInWei.set(symbol.toUpperCase(), rateInWei);
+    }
+
+    return {
+        name: 'static',
+        getRateInWei: async (symbol: string) => ratesInWei.get(symbol),
+    };
+};
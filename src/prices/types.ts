@@ -0,0 +1,13 @@
+/**
+ * A source of exchange rates from other currencies to ETH
+ */
+export type PriceSource = {
+    name: string;
+    /**
+     * Gets the price of one whole unit of a currency in wei
+     * @param symbol The currency symbol (uppercase)
+     * @param chain The chain the currency is used on
+     * @returns The price in wei, or undefined if the source has no rate for the currency
+     */
+    getRateInWei: (symbol: string, chain: string) => Promise<bigint | undefined>;
+};
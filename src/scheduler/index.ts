@@ -0,0 +1,7 @@
+export {
+    type EntrySchedule,
+    type ScheduledEntry,
+    type ScheduledJob,
+    type SchedulerOptions,
+} from './types.js';
+export { runScheduler } from './runScheduler.js';
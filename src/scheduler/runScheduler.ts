@@ -0,0 +1,140 @@
+import { logger } from '../utils/logger.js';
+import { EntrySchedule, ScheduledEntry, ScheduledJob, SchedulerOptions } from './types.js';
+
+// Longest wait between two looks at the due entries
+const TICK_SECONDS = 1;
+
+/**
+ * Polling state of an entry, kept while the entry stays in force
+ */
+type EntryState = {
+    nextPollAt: number; // Epoch milliseconds
+    failures: number; // Consecutive failed polls
+    running: boolean;
+};
+
+/**
+ * Draws the random delay added to the interval of an entry
+ * @param schedule The schedule of the entry
+ * @param options The scheduler options
+ * @returns The delay in milliseconds
+ */
+const getJitterMs = (schedule: EntrySchedule | undefined, options: SchedulerOptions): number =>
+    Math.random() * (schedule?.jitterSeconds ?? options.jitterSeconds) * 1000;
+
+/**
+ * Polls an entry once and schedules its next poll
+ * A failed poll doubles the delay before the next one, up to the max backoff, without delaying
+ * other entries.
+ * @param job The job of the entry
+ * @param entry The entry to poll
+ * @param state The polling state of the entry
+ * @param options The scheduler options
+ */
+const pollEntry = async <T extends ScheduledEntry>(
+    job: ScheduledJob<T>,
+    entry: T,
+    state: EntryState,
+    options: SchedulerOptions
+) => {
+    const intervalSeconds = entry.schedule?.intervalSeconds ?? job.intervalSeconds;
+    try {
+        await job.poll(entry);
+        if (state.failures > 0) {
+            logger.info(
+                `[${job.name}] ${job.describe(entry)} recovered after ${state.failures} failed poll(s)`
+            );
+        }
+        state.failures = 0;
+        state.nextPollAt =
+            Date.now() + intervalSeconds * 1000 + getJitterMs(entry.schedule, options);
+    } catch (err) {
+        state.failures++;
+        const backoffSeconds = Math.min(
+            intervalSeconds * 2 ** state.failures,
+            Math.max(options.maxBackoffSeconds, intervalSeconds)
+        );
+        logger.error(
+            `[${job.name}] Error monitoring ${job.describe(entry)} (${state.failures} failed poll(s) in a row). Backing off for ${backoffSeconds}s ...`,
+            err
+        );
+        state.nextPollAt =
+            Date.now() + backoffSeconds * 1000 + getJitterMs(entry.schedule, options);
+    }
+};
+
+/**
+ * Polls the entries of every job, each on its own interval, with bounded concurrency per chain
+ * Due entries are started by priority, then by how long they have been due. Entries are read
+ * every tick, so reloaded entries are picked up and removed ones are dropped.
+ * @param jobs The kinds of entries to poll
+ * @param options The scheduler options
+ */
+export const runScheduler = async (
+    jobs: ScheduledJob<ScheduledEntry>[],
+    options: SchedulerOptions
+) => {
+    const states = new Map<ScheduledEntry, EntryState>();
+    const runningByChain: Record<string, number> = {};
+    let wake = () => {};
+
+    while (true) {
+        const now = Date.now();
+        const inForce = new Set<ScheduledEntry>();
+        const due: {
+            job: ScheduledJob<ScheduledEntry>;
+            entry: ScheduledEntry;
+            state: EntryState;
+        }[] = [];
+        for (const job of jobs) {
+            for (const entry of job.getEntries()) {
+                inForce.add(entry);
+                let state = states.get(entry);
+                if (!state) {
+                    // Spread new entries over their jitter so a large config does not poll at once
+                    state = {
+                        nextPollAt: now + getJitterMs(entry.schedule, options),
+                        failures: 0,
+                        running: false,
+                    };
+                    states.set(entry, state);
+                }
+                if (!state.running && state.nextPollAt <= now) {
+                    due.push({ job, entry, state });
+                }
+            }
+        }
+        for (const entry of states.keys()) {
+            if (!inForce.has(entry)) {
+                states.delete(entry);
+            }
+        }
+
+        due.sort(
+            (a, b) =>
+                (b.entry.schedule?.priority ?? 0) - (a.entry.schedule?.priority ?? 0) ||
+                a.state.nextPollAt - b.state.nextPollAt
+        );
+        for (const { job, entry, state } of due) {
+            if ((runningByChain[entry.chain] || 0) >= options.maxConcurrencyPerChain) {
+                continue;
+            }
+            state.running = true;
+            runningByChain[entry.chain] = (runningByChain[entry.chain] || 0) + 1;
+            pollEntry(job, entry, state, options).finally(() => {
+                state.running = false;
+                runningByChain[entry.chain]--;
+                wake();
+            });
+        }
+
+        // Look again as soon as a poll finishes, or after a tick for entries falling due
+        await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, TICK_SECONDS * 1000);
+            wake = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+        });
+    }
+};
@@ -0,0 +1,34 @@
+/**
+ * When an entry is polled, set per entry with "schedule"
+ */
+export type EntrySchedule = {
+    intervalSeconds?: number; // Time between polls (default: the polling interval of its kind)
+    priority?: number; // Entries with a higher priority are polled first when a chain is busy (default: 0)
+    jitterSeconds?: number; // Up to this many seconds are randomly added to each interval (default: POLLING_JITTER_SECONDS)
+};
+
+/**
+ * An entry the scheduler can poll, i.e. a listing or offer entry
+ */
+export type ScheduledEntry = {
+    chain: string;
+    collectionSlug: string;
+    schedule?: EntrySchedule;
+};
+
+/**
+ * A kind of entry polled by the scheduler, e.g. listings
+ */
+export type ScheduledJob<T extends ScheduledEntry> = {
+    name: string; // Log prefix, e.g. "Listings"
+    intervalSeconds: number; // Default time between polls of an entry
+    getEntries(): T[]; // Read every tick, so reloaded entries are picked up
+    describe(entry: T): string;
+    poll(entry: T): Promise<void>;
+};
+
+export type SchedulerOptions = {
+    maxConcurrencyPerChain: number; // Polls running at the same time on a chain
+    jitterSeconds: number; // Default jitter of an entry
+    maxBackoffSeconds: number; // Longest delay after repeated failures
+};
@@ -0,0 +1,11 @@
+export { type TokenInfo, type ChainTokens } from './types.js';
+export { KNOWN_TOKENS } from './knownTokens.js';
+export {
+    initializeTokenRegistry,
+    getChainTokens,
+    findKnownToken,
+    findToken,
+    findTokenBySymbol,
+    getTokenInfo,
+    isEtherToken,
+} from './tokenRegistry.js';
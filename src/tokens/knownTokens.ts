@@ -0,0 +1,77 @@
+import { ZeroAddress } from 'ethers';
+
+import { ChainTokens, TokenInfo } from './types.js';
+
+const ETH: TokenInfo = { address: ZeroAddress, symbol: 'ETH', decimals: 18 };
+
+// OP Stack chains share the same predeploy address for WETH
+const OP_STACK_WETH: TokenInfo = {
+    address: '0x4200000000000000000000000000000000000006',
+    symbol: 'WETH',
+    decimals: 18,
+};
+
+/**
+ * Known payment tokens by chain ID
+ */
+export const KNOWN_TOKENS: Record<number, ChainTokens> = {
+    // Ethereum mainnet
+    1: {
+        native: ETH,
+        weth: {
+            address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+            symbol: 'WETH',
+            decimals: 18,
+        },
+        tokens: [
+            { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', decimals: 6 },
+            { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', decimals: 6 },
+            { address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', symbol: 'DAI', decimals: 18 },
+        ],
+    },
+    // Optimism
+    10: {
+        native: ETH,
+        weth: OP_STACK_WETH,
+        tokens: [
+            { address: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', symbol: 'USDC', decimals: 6 },
+        ],
+    },
+    // Polygon
+    137: {
+        native: { address: ZeroAddress, symbol: 'POL', decimals: 18 },
+        weth: {
+            address: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619',
+            symbol: 'WETH',
+            decimals: 18,
+        },
+        tokens: [
+            { address: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', symbol: 'WPOL', decimals: 18 },
+            { address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', symbol: 'USDC', decimals: 6 },
+        ],
+    },
+    // Shape
+    360: { native: ETH, weth: OP_STACK_WETH, tokens: [] },
+    // Base
+    8453: {
+        native: ETH,
+        weth: OP_STACK_WETH,
+        tokens: [
+            { address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', symbol: 'USDC', decimals: 6 },
+        ],
+    },
+    // Arbitrum
+    42161: {
+        native: ETH,
+        weth: {
+            address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+            symbol: 'WETH',
+            decimals: 18,
+        },
+        tokens: [
+            { address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', symbol: 'USDC', decimals: 6 },
+        ],
+    },
+    // Zora
+    7777777: { native: ETH, weth: OP_STACK_WETH, tokens: [] },
+};
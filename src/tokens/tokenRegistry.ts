@@ -0,0 +1,138 @@
+import { Contract, JsonRpcProvider } from 'ethers';
+
+import { logger } from '../utils/logger.js';
+import { withRetry } from '../utils/ratelimit.js';
+import { ERC20_ABI } from '../networks/contracts.js';
+import { KNOWN_TOKENS } from './knownTokens.js';
+import { ChainTokens, TokenInfo } from './types.js';
+
+// RPC providers by chain ID, used to look up tokens that are not known upfront
+const providers: Record<number, JsonRpcProvider> = {};
+
+// Tokens looked up onchain, by chain ID and lowercase address
+const tokenCache = new Map<string, TokenInfo>();
+
+/**
+ * Registers the RPC providers used to look up unknown tokens
+ * @param chainProviders Record of RPC providers by chain
+ * @param chainIds Record of chain IDs by chain
+ */
+export const initializeTokenRegistry = (
+    chainProviders: Record<string, JsonRpcProvider>,
+    chainIds: Record<string, number>
+) => {
+    for (const [chain, provider] of Object.entries(chainProviders)) {
+        providers[chainIds[chain]] = provider;
+    }
+};
+
+/**
+ * Gets the known payment tokens of a chain
+ * @param chainId The chain ID
+ * @returns The known tokens of the chain
+ */
+export const getChainTokens = (chainId: number): ChainTokens => {
+    const chainTokens = KNOWN_TOKENS[chainId];
+    if (!chainTokens) {
+        throw new Error(`No payment tokens registered for chain ID ${chainId}`);
+    }
+    return chainTokens;
+};
+
+/**
+ * Finds a token by address among the known tokens only
+ * Unlike tokens looked up onchain, their symbols can be trusted.
+ * @param chainId The chain ID
+ * @param address The token address
+ * @returns The token or undefined if it is not known upfront
+ */
+export const findKnownToken = (chainId: number, address: string): TokenInfo | undefined => {
+    const chainTokens = KNOWN_TOKENS[chainId];
+    if (!chainTokens) {
+        return undefined;
+    }
+    const normalized = address.toLowerCase();
+    return [chainTokens.native, chainTokens.weth, ...chainTokens.tokens].find(
+        (t) => t.address.toLowerCase() === normalized
+    );
+};
+
+/**
+ * Finds a token by address among the known and previously looked up tokens
+ * @param chainId The chain ID
+ * @param address The token address
+ * @returns The token or undefined if it has not been seen yet
+ */
+export const findToken = (chainId: number, address: string): TokenInfo | undefined =>
+    findKnownToken(chainId, address) ?? tokenCache.get(`${chainId}:${address.toLowerCase()}`);
+
+/**
+ * Finds a known token by symbol
+ * @param chainId The chain ID
+ * @param symbol The token symbol
+ * @returns The token or undefined if the chain has no such token
+ */
+export const findTokenBySymbol = (chainId: number, symbol: string): TokenInfo | undefined => {
+    const normalized = symbol.toUpperCase();
+    const { native, weth, tokens } = getChainTokens(chainId);
+    return [native, weth, ...tokens].find((t) => t.symbol.toUpperCase() === normalized);
+};
+
+/**
+ * Gets a token by address, looking up its symbol and decimals onchain if it is not known
+ * @param chainId The chain ID
+ * @param address The token address
+ * @returns The token or undefined if it could not be looked up
+ */
+export const getTokenInfo = async (
+    chainId: number,
+    address: string
+): Promise<TokenInfo | undefined> => {
+    const known = findToken(chainId, address);
+    if (known) {
+        return known;
+    }
+
+    const provider = providers[chainId];
+    if (!provider) {
+        logger.warn(`No RPC provider for chain ID ${chainId} to look up token ${address}`);
+        return undefined;
+    }
+
+    try {
+        const contract = new Contract(address, ERC20_ABI, provider);
+        const [symbol, decimals] = await Promise.all([
+            withRetry(() => contract.symbol()),
+            withRetry(() => contract.decimals()),
+        ]);
+        const token = { address, symbol: String(symbol), decimals: Number(decimals) };
+        tokenCache.set(`${chainId}:${address.toLowerCase()}`, token);
+        logger.debug(`Looked up token ${address}: ${token.symbol} (${token.decimals} decimals)`);
+        return token;
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        logger.warn(`Failed to look up token ${address} on chain ID ${chainId}: ${errorMessage}`);
+        return undefined;
+    }
+};
+
+/**
+ * Checks if a token is priced 1:1 in ETH (ETH or wrapped ether)
+ * Tokens are matched by address, since any ERC20 can call itself ETH or WETH. The native token
+ * only counts on chains where it is ETH.
+ * @param chainId The chain ID
+ * @param address The token address
+ * @returns True if the token is the chain's ETH or WETH
+ */
+export const isEtherToken = (chainId: number, address: string): boolean => {
+    const chainTokens = KNOWN_TOKENS[chainId];
+    if (!chainTokens) {
+        return false;
+    }
+    const normalized = address.toLowerCase();
+    return (
+        normalized === chainTokens.weth.address.toLowerCase() ||
+        (chainTokens.native.symbol === 'ETH' &&
+            normalized === chainTokens.native.address.toLowerCase())
+    );
+};
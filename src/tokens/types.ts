@@ -0,0 +1,17 @@
+/**
+ * An ERC20 (or native) token used to price orders
+ */
+export type TokenInfo = {
+    address: string;
+    symbol: string;
+    decimals: number;
+};
+
+/**
+ * Known payment tokens of a chain
+ */
+export type ChainTokens = {
+    native: TokenInfo; // The chain's gas token, paid with itemType 0
+    weth: TokenInfo; // Wrapped ether used for offers
+    tokens: TokenInfo[]; // Other well-known tokens, e.g. stablecoins
+};
@@ -0,0 +1 @@
+export { manageTreasury, type TreasuryConfig } from './manageTreasury.js';
@@ -0,0 +1,145 @@
+import { Contract, formatEther, formatUnits, Signer } from 'ethers';
+
+import { logger } from '../utils/logger.js';
+import { withRetry } from '../utils/ratelimit.js';
+import { OPENSEA_CONDUIT_ADDRESS, WETH_ABI } from '../networks/contracts.js';
+import { sendOnChain } from '../networks/index.js';
+import { getChainTokens } from '../tokens/index.js';
+
+/**
+ * Limits of the treasury routine of a chain
+ */
+export type TreasuryConfig = {
+    targetWETH: bigint; // WETH balance to keep for offers
+    reserveETH: bigint; // ETH that always stays unwrapped to pay for gas
+    maxWrapETH: bigint; // Max ETH wrapped in a single transaction
+    maxFeePerGas: bigint; // Transactions are skipped while gas is more expensive
+};
+
+/**
+ * Gets gas overrides that keep a transaction under the gas price ceiling
+ * @param signer The wallet sending the transaction
+ * @param maxFeePerGas The gas price ceiling in wei
+ * @param description Description of the transaction for logging
+ * @returns The gas overrides, or undefined if gas is currently above the ceiling
+ */
+const getGasOverrides = async (
+    signer: Signer,
+    maxFeePerGas: bigint,
+    description: string
+): Promise<Record<string, bigint> | undefined> => {
+    const feeData = await withRetry(() => signer.provider!.getFeeData());
+    const currentFee = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+    if (currentFee > maxFeePerGas) {
+        logger.warn(
+            `Gas price ${formatUnits(currentFee, 'gwei')} gwei is above the ceiling of ${formatUnits(maxFeePerGas, 'gwei')} gwei. Skipping ${description}...`
+        );
+        return undefined;
+    }
+
+    if (feeData.maxFeePerGas !== null) {
+        const priorityFee = feeData.maxPriorityFeePerGas ?? 0n;
+        return {
+            maxFeePerGas,
+            maxPriorityFeePerGas: priorityFee < maxFeePerGas ? priorityFee : maxFeePerGas,
+        };
+    }
+    return { gasPrice: currentFee };
+};
+
+/**
+ * Keeps the WETH balance used by offers at its target by wrapping ETH above the gas reserve,
+ * and makes sure the OpenSea conduit is allowed to spend it
+ * @param chain The chain name
+ * @param chainId The chain ID
+ * @param signer The wallet of the chain
+ * @param config The treasury limits of the chain
+ * @param dryRun If true, only log the transactions that would be sent
+ */
+export const manageTreasury = async (
+    chain: string,
+    chainId: number,
+    signer: Signer,
+    config: TreasuryConfig,
+    dryRun: boolean = false
+) => {
+    // WETH is only wrapped from the native token where that token is ETH
+    const { native, weth: wethToken } = getChainTokens(chainId);
+    if (native.symbol !== 'ETH') {
+        logger.warn(
+            `The native token of ${chain} is ${native.symbol}, not ETH, so it cannot be wrapped into WETH. Skipping treasury...`
+        );
+        return;
+    }
+
+    const owner = await signer.getAddress();
+    const weth = new Contract(wethToken.address, WETH_ABI, signer);
+    const [ethBalance, wethBalance, allowance] = await Promise.all([
+        withRetry(() => signer.provider!.getBalance(owner)),
+        withRetry(() => weth.balanceOf(owner)).then(BigInt),
+        withRetry(() => weth.allowance(owner, OPENSEA_CONDUIT_ADDRESS)).then(BigInt),
+    ]);
+    logger.debug(
+        `Treasury on ${chain}: ${formatEther(ethBalance)} ETH, ${formatEther(wethBalance)} WETH (target ${formatEther(config.targetWETH)}), allowance ${formatEther(allowance)} WETH`
+    );
+
+    // Wrap ETH above the gas reserve until the target is reached
+    let expectedWETH = wethBalance;
+    if (wethBalance < config.targetWETH) {
+        let amount = config.targetWETH - wethBalance;
+        const wrappable = ethBalance - config.reserveETH;
+        if (wrappable < amount) {
+            amount = wrappable;
+        }
+        if (config.maxWrapETH < amount) {
+            amount = config.maxWrapETH;
+        }
+
+        if (amount <= 0n) {
+            logger.debug(
+                `No ETH above the ${formatEther(config.reserveETH)} ETH reserve to wrap on ${chain}. Skipping...`
+            );
+        } else if (dryRun) {
+            logger.info(`[DRY-RUN] Would wrap ${formatEther(amount)} ETH into WETH on ${chain}`);
+        } else {
+            const overrides = await getGasOverrides(signer, config.maxFeePerGas, 'wrapping');
+            if (overrides) {
+                logger.info(`Wrapping ${formatEther(amount)} ETH into WETH on ${chain} ...`);
+                const tx = await sendOnChain(chain, async () => {
+                    const tx = await weth.deposit({ value: amount, ...overrides });
+                    await tx.wait();
+                    return tx;
+                });
+                expectedWETH += amount;
+                logger.info(`Successfully wrapped ${formatEther(amount)} ETH in tx ${tx.hash}`);
+            }
+        }
+    }
+
+    // Allow the conduit to spend the WETH we hold or aim to hold, but never more
+    const requiredAllowance = expectedWETH > config.targetWETH ? expectedWETH : config.targetWETH;
+    if (allowance >= requiredAllowance) {
+        return;
+    }
+
+    if (dryRun) {
+        logger.info(
+            `[DRY-RUN] Would approve ${formatEther(requiredAllowance)} WETH to OpenSea conduit ${OPENSEA_CONDUIT_ADDRESS} on ${chain}`
+        );
+        return;
+    }
+
+    const overrides = await getGasOverrides(signer, config.maxFeePerGas, 'WETH approval');
+    if (!overrides) {
+        return;
+    }
+    logger.info(
+        `Approving ${formatEther(requiredAllowance)} WETH to OpenSea conduit ${OPENSEA_CONDUIT_ADDRESS} on ${chain} ...`
+    );
+    const tx = await sendOnChain(chain, async () => {
+        const tx = await weth.approve(OPENSEA_CONDUIT_ADDRESS, requiredAllowance, overrides);
+        await tx.wait();
+        return tx;
+    });
+    logger.info(`Successfully approved WETH to OpenSea conduit in tx ${tx.hash}`);
+};
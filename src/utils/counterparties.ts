@@ -0,0 +1,55 @@
+import { isAddress } from 'ethers';
+
+let friendlyAddresses: string[] = [];
+let ignoredAddresses: string[] = [];
+
+/**
+ * Validates a list of addresses and lowercases them for comparison
+ * @param name The name of the list, for error messages
+ * @param addresses The addresses
+ * @returns The lowercased addresses
+ */
+const normalizeAddresses = (name: string, addresses: string[]): string[] =>
+    addresses.map((address) => {
+        if (!isAddress(address)) {
+            throw new Error(`Invalid ${name} address: ${address}`);
+        }
+        return address.toLowerCase();
+    });
+
+/**
+ * Sets the wallets whose orders count as ours and the wallets whose orders are never competed with
+ * @param friendly Addresses of our other wallets, never outbid or undercut
+ * @param ignored Addresses of known wash or spoof traders, excluded when picking the best order
+ */
+export const setCounterparties = (friendly: string[], ignored: string[]) => {
+    friendlyAddresses = normalizeAddresses('friendly', friendly);
+    ignoredAddresses = normalizeAddresses('ignored', ignored);
+};
+
+/**
+ * Gets the addresses whose orders count as ours
+ * @param owner The wallet owner address
+ * @returns The owner followed by the friendly addresses
+ */
+export const getOurAddresses = (owner: string): string[] => [owner, ...friendlyAddresses];
+
+/**
+ * Checks if an order maker counts as us
+ * @param address The maker address
+ * @param owner The wallet owner address
+ * @returns True if the address is the owner or a friendly address
+ */
+export const isOurAddress = (address: string, owner: string): boolean =>
+    getOurAddresses(owner).some((a) => a.toLowerCase() === address.toLowerCase());
+
+/**
+ * Checks if an order maker is excluded when picking the best order
+ * @param address The maker address
+ * @param excludeAddresses Optional addresses to exclude besides the ignored ones
+ * @returns True if the address is ignored or excluded
+ */
+export const isExcludedAddress = (address: string, excludeAddresses: string[] = []): boolean =>
+    [...ignoredAddresses, ...excludeAddresses].some(
+        (a) => a.toLowerCase() === address.toLowerCase()
+    );